@@ -0,0 +1,98 @@
+// Local stand-in for the realtime event stream.
+//
+//   npm run mock:realtime            # stream on http://localhost:4001/events
+//   npm run mock:realtime -- --demo  # also send a random plot event every 10s
+//
+// Point the app at it with NEXT_PUBLIC_REALTIME_URL=http://localhost:4001/events
+// and push events by hand, using real ids to see the caches update:
+//
+//   curl -X POST http://localhost:4001/emit -H "Content-Type: application/json" \
+//     -d '{"type":"plot.status","projectId":"<id>","plotId":"<id>","plotNumber":"A-012","status":"booked"}'
+
+import http from "node:http";
+
+const PORT = Number(process.env.PORT) || 4001;
+const HEARTBEAT_MS = 15 * 1000;
+const DEMO_INTERVAL_MS = 10 * 1000;
+const PLOT_STATUSES = ["available", "reserved", "booked", "sold"];
+
+const clients = new Set();
+
+const broadcast = (event) => {
+  const message = `data: ${JSON.stringify(event)}\n\n`;
+  clients.forEach((res) => res.write(message));
+  console.log(`sent ${event.type} to ${clients.size} client(s)`);
+};
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders).end();
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/events") {
+    // The real server checks this token; the mock only wants one present
+    if (!url.searchParams.get("token")) {
+      res.writeHead(401, corsHeaders).end();
+      return;
+    }
+    res.writeHead(200, {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(": connected\n\n");
+    clients.add(res);
+    req.on("close", () => clients.delete(res));
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/emit") {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        broadcast(JSON.parse(body));
+        res.writeHead(202, corsHeaders).end();
+      } catch {
+        res.writeHead(400, corsHeaders).end("Body must be a JSON event");
+      }
+    });
+    return;
+  }
+
+  res.writeHead(404, corsHeaders).end();
+});
+
+// Comments keep proxies from closing idle streams
+setInterval(
+  () => clients.forEach((res) => res.write(": ping\n\n")),
+  HEARTBEAT_MS
+);
+
+if (process.argv.includes("--demo")) {
+  // Placeholder ids match no cached plot, so only the notices show
+  setInterval(() => {
+    const number = String(Math.ceil(Math.random() * 20)).padStart(3, "0");
+    broadcast({
+      type: "plot.status",
+      projectId: "demo-project",
+      plotId: `demo-plot-${number}`,
+      plotNumber: `A-${number}`,
+      status: PLOT_STATUSES[Math.floor(Math.random() * PLOT_STATUSES.length)],
+    });
+  }, DEMO_INTERVAL_MS);
+}
+
+server.listen(PORT, () => {
+  console.log(`Mock realtime server on http://localhost:${PORT}/events`);
+});
@@ -15,15 +15,19 @@ import {
   SunMoon,
   LandPlot,
   BookCheck,
+  ChartColumn,
+  Users,
 } from "lucide-react";
 import Link from "next/link";
 import React from "react";
 import { useAuthStore } from "@/stores/authStore";
 import { useTheme } from "next-themes";
+import { usePermissions } from "@/hooks/usePermissions";
 
 const AppSidebar = () => {
   const logout = useAuthStore((state) => state.logout);
   const { theme, setTheme } = useTheme();
+  const { can } = usePermissions();
   return (
     <Sidebar collapsible="icon">
       <SidebarHeader>
@@ -63,6 +67,26 @@ const AppSidebar = () => {
               </Link>
             </SidebarMenuButton>
           </SidebarMenuItem>
+          {can("analytics.view") && (
+            <SidebarMenuItem>
+              <SidebarMenuButton asChild tooltip="Analytics">
+                <Link href="/analytics">
+                  <ChartColumn />
+                  <span>Analytics</span>
+                </Link>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          )}
+          {can("team.manage") && (
+            <SidebarMenuItem>
+              <SidebarMenuButton asChild tooltip="Team">
+                <Link href="/team">
+                  <Users />
+                  <span>Team</span>
+                </Link>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          )}
         </SidebarMenu>
       </SidebarContent>
       <SidebarFooter>
@@ -0,0 +1,398 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { BookCheck, IndianRupee, LandPlot, TrendingUp } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useSalesAnalyticsData } from "@/hooks/useAnalytics";
+import { useBlocksByProject } from "@/hooks/useBlock";
+import {
+  getInventoryBurnDown,
+  getPriceComparison,
+  getStatusFunnel,
+  getWeeklyBookings,
+} from "@/lib/analytics";
+
+const formatCompactPrice = (value: number) =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(value);
+
+const weeklyConfig = {
+  bookings: { label: "Bookings", color: "var(--chart-1)" },
+  value: { label: "Booked value", color: "var(--chart-2)" },
+  cumulativeValue: { label: "Cumulative value", color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+const funnelConfig = {
+  count: { label: "Bookings", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+const priceConfig = {
+  listed: { label: "Listed (₹/sq. ft)", color: "var(--chart-4)" },
+  sold: { label: "Sold (₹/sq. ft)", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const StatCard = ({
+  title,
+  value,
+  icon: Icon,
+}: {
+  title: string;
+  value: string | number;
+  icon: React.ElementType;
+}) => (
+  <Card>
+    <CardContent className="p-6 flex items-center justify-between">
+      <div>
+        <p className="text-sm font-medium text-muted-foreground">{title}</p>
+        <h3 className="text-2xl font-bold">{value}</h3>
+      </div>
+      <Icon className="h-8 w-8 text-muted-foreground" />
+    </CardContent>
+  </Card>
+);
+
+const AnalyticsPage = () => {
+  const { data, isLoading, isError } = useSalesAnalyticsData();
+  const [selectedProjectId, setSelectedProjectId] = useState<string>();
+  const projectId = selectedProjectId ?? data?.projects[0]?._id;
+  const { data: blocks } = useBlocksByProject(projectId);
+
+  const weekly = useMemo(() => getWeeklyBookings(data?.bookings ?? []), [data]);
+  const funnel = useMemo(() => getStatusFunnel(data?.bookings ?? []), [data]);
+  const priceComparison = useMemo(
+    () =>
+      getPriceComparison(
+        (data?.projects ?? []).map((project) => ({
+          name: project.name,
+          plots: (data?.plots ?? []).filter((p) => p.projectId === project._id),
+        }))
+      ),
+    [data]
+  );
+  const burnDown = useMemo(
+    () =>
+      getInventoryBurnDown(
+        (data?.plots ?? []).filter((p) => p.projectId === projectId),
+        (data?.bookings ?? []).filter((b) => b.projectId._id === projectId)
+      ),
+    [data, projectId]
+  );
+
+  const burnDownConfig = useMemo<ChartConfig>(
+    () => ({
+      total: { label: "All blocks", color: "var(--foreground)" },
+      ...Object.fromEntries(
+        burnDown.blockIds.map((blockId, i) => [
+          blockId,
+          {
+            label: blocks?.find((b) => b._id === blockId)?.name ?? "Block",
+            color: `var(--chart-${(i % 5) + 1})`,
+          },
+        ])
+      ),
+    }),
+    [burnDown.blockIds, blocks]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-80 w-full" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return <div className="p-6 text-red-500">Error loading analytics</div>;
+  }
+
+  const activeBookings = data.bookings.filter(
+    (b) => b.bookingStatus !== "cancelled"
+  );
+  const bookedValue = activeBookings.reduce(
+    (sum, b) => sum + b.plotId.price,
+    0
+  );
+  const completed = funnel.find((s) => s.stage === "Completed")?.count ?? 0;
+  const availablePlots = data.plots.filter(
+    (p) => p.status === "available"
+  ).length;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Sales Analytics</h1>
+        <p className="text-muted-foreground mt-1">
+          Bookings and inventory across all {data.projects.length} projects.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          title="Total Bookings"
+          value={data.bookings.length}
+          icon={BookCheck}
+        />
+        <StatCard
+          title="Booked Value"
+          value={formatCompactPrice(bookedValue)}
+          icon={IndianRupee}
+        />
+        <StatCard
+          title="Completion Rate"
+          value={
+            data.bookings.length
+              ? `${Math.round((completed / data.bookings.length) * 100)}%`
+              : "-"
+          }
+          icon={TrendingUp}
+        />
+        <StatCard
+          title="Available Plots"
+          value={availablePlots}
+          icon={LandPlot}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Bookings per Week</CardTitle>
+            <CardDescription>All bookings, including cancelled</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={weeklyConfig} className="h-72 w-full">
+              <BarChart data={weekly}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis
+                  allowDecimals={false}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar
+                  dataKey="bookings"
+                  fill="var(--color-bookings)"
+                  radius={4}
+                />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Booked Value over Time</CardTitle>
+            <CardDescription>
+              Weekly and cumulative value of bookings not cancelled
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={weeklyConfig} className="h-72 w-full">
+              <ComposedChart data={weekly}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={70}
+                  tickFormatter={formatCompactPrice}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value, name) => (
+                        <div className="flex w-full justify-between gap-4">
+                          <span className="text-muted-foreground">
+                            {weeklyConfig[name as keyof typeof weeklyConfig]
+                              ?.label ?? name}
+                          </span>
+                          <span className="font-mono font-medium">
+                            {formatCompactPrice(Number(value))}
+                          </span>
+                        </div>
+                      )}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+                <Line
+                  type="monotone"
+                  dataKey="cumulativeValue"
+                  stroke="var(--color-cumulativeValue)"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </ComposedChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Status Funnel</CardTitle>
+            <CardDescription>How far bookings have progressed</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={funnelConfig} className="h-72 w-full">
+              <BarChart data={funnel} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis
+                  type="number"
+                  allowDecimals={false}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  type="category"
+                  dataKey="stage"
+                  tickLine={false}
+                  axisLine={false}
+                  width={80}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Price per Unit: Sold vs Listed</CardTitle>
+            <CardDescription>
+              Area-weighted average per project, in ₹ per sq. ft
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={priceConfig} className="h-72 w-full">
+              <BarChart data={priceComparison}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={60} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="listed" fill="var(--color-listed)" radius={4} />
+                <Bar dataKey="sold" fill="var(--color-sold)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Inventory Burn-down</CardTitle>
+              <CardDescription>
+                Available plots at the end of each week, per block
+              </CardDescription>
+            </div>
+            <Select
+              value={projectId}
+              onValueChange={(val) => setSelectedProjectId(val)}
+            >
+              <SelectTrigger className="w-full sm:w-[240px]">
+                <SelectValue placeholder="Select project" />
+              </SelectTrigger>
+              <SelectContent>
+                {data.projects.map((project) => (
+                  <SelectItem key={project._id} value={project._id}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {burnDown.blockIds.length === 0 ? (
+              <div className="h-72 flex items-center justify-center text-muted-foreground">
+                This project has no plots yet.
+              </div>
+            ) : (
+              <ChartContainer config={burnDownConfig} className="h-80 w-full">
+                <LineChart data={burnDown.data}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis
+                    allowDecimals={false}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line
+                    type="stepAfter"
+                    dataKey="total"
+                    stroke="var(--color-total)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  {burnDown.blockIds.map((blockId) => (
+                    <Line
+                      key={blockId}
+                      type="stepAfter"
+                      dataKey={blockId}
+                      stroke={`var(--color-${blockId})`}
+                      strokeDasharray="4 4"
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPage;
@@ -0,0 +1,252 @@
+"use client";
+
+import React from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  ArrowLeft,
+  Building2,
+  LandPlot,
+  Mail,
+  MapPin,
+  Phone,
+  User,
+} from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { useGetBooking } from "@/hooks/useBookings";
+import BookingStatusBadge from "@/components/bookings/BookingStatusBadge";
+import BookingTimeline from "@/components/bookings/BookingTimeline";
+import BookingActions from "@/components/bookings/BookingActions";
+
+const formatPrice = (value: number) =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+  }).format(value);
+
+const DetailRow = ({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) => (
+  <div className="flex justify-between gap-4 text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-medium text-right">{children}</span>
+  </div>
+);
+
+const BookingPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: booking, isLoading, isError } = useGetBooking(id);
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Skeleton className="h-64 w-full lg:col-span-2" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (isError || !booking) {
+    return (
+      <div className="p-6 flex items-center justify-center h-[60vh]">
+        <Card className="p-8 text-center">
+          <p className="text-destructive mb-4">
+            Failed to load booking details
+          </p>
+          <Link href="/bookings">
+            <Button variant="outline">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Bookings
+            </Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const { customerDetails, plotId: plot, projectId: project } = booking;
+  const broker = booking.brokerId;
+
+  return (
+    <div className="p-6 space-y-8">
+      {/* Header */}
+      <div className="space-y-4">
+        <Link
+          href="/bookings"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Bookings
+        </Link>
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold">
+                Plot {plot.plotNumber}, {project.name}
+              </h1>
+              <BookingStatusBadge status={booking.bookingStatus} />
+            </div>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Booked by {customerDetails.name} on{" "}
+              {format(new Date(booking.bookingDate), "PP")}
+            </p>
+          </div>
+          <BookingActions booking={booking} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Customer */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <User size={18} />
+                Customer
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <DetailRow label="Name">{customerDetails.name}</DetailRow>
+              <DetailRow label="Phone">
+                <a href={`tel:${customerDetails.phone}`}>
+                  {customerDetails.phone}
+                </a>
+              </DetailRow>
+              {customerDetails.alternatePhone && (
+                <DetailRow label="Alternate Phone">
+                  <a href={`tel:${customerDetails.alternatePhone}`}>
+                    {customerDetails.alternatePhone}
+                  </a>
+                </DetailRow>
+              )}
+              <DetailRow label="Email">
+                <a href={`mailto:${customerDetails.email}`}>
+                  {customerDetails.email}
+                </a>
+              </DetailRow>
+              {customerDetails.address && (
+                <DetailRow label="Address">{customerDetails.address}</DetailRow>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Plot & Project */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <LandPlot size={18} />
+                Plot
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <DetailRow label="Plot No.">{plot.plotNumber}</DetailRow>
+              <DetailRow label="Area">
+                {plot.area} {plot.areaUnit.replace("SQ_", "Sq. ")}
+              </DetailRow>
+              <DetailRow label="Facing">
+                <span className="capitalize">
+                  {plot.facing.replace("_", " ").toLowerCase()}
+                </span>
+              </DetailRow>
+              <DetailRow label="Price">{formatPrice(plot.price)}</DetailRow>
+              <DetailRow label="Plot Status">
+                <span className="capitalize">{plot.status}</span>
+              </DetailRow>
+              <Separator />
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="flex items-center gap-2 font-medium">
+                    <Building2 size={16} />
+                    {project.name}
+                  </p>
+                  <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <MapPin size={14} />
+                    {project.address.address}, {project.address.city},{" "}
+                    {project.address.state} {project.address.pincode}
+                  </p>
+                </div>
+                <Link href={`/project/${project._id}`}>
+                  <Button variant="outline" size="sm">
+                    View Plot in Project
+                  </Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Broker */}
+          {broker && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Broker</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <DetailRow label="Name">{broker.name}</DetailRow>
+                <DetailRow label="Phone">
+                  <a
+                    href={`tel:${broker.phone}`}
+                    className="inline-flex items-center gap-1"
+                  >
+                    <Phone size={14} />
+                    {broker.phone}
+                  </a>
+                </DetailRow>
+                <DetailRow label="Email">
+                  <a
+                    href={`mailto:${broker.email}`}
+                    className="inline-flex items-center gap-1"
+                  >
+                    <Mail size={14} />
+                    {broker.email}
+                  </a>
+                </DetailRow>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {/* Timeline */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Status Timeline</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BookingTimeline booking={booking} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Record</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <DetailRow label="Booking ID">
+                <span className="font-mono text-xs">{booking._id}</span>
+              </DetailRow>
+              <DetailRow label="Created">
+                {format(new Date(booking.createdAt), "PPp")}
+              </DetailRow>
+              <DetailRow label="Last Updated">
+                {format(new Date(booking.updatedAt), "PPp")}
+              </DetailRow>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingPage;
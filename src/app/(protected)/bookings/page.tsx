@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { Suspense } from "react";
 import { format } from "date-fns";
 import {
   Table,
@@ -21,20 +21,21 @@ import {
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useGetBookings } from "@/hooks/useBookings";
+import { toBookingsParams, useBookingFilters } from "@/hooks/useBookingFilters";
+import BookingFilters from "@/components/bookings/BookingFilters";
+import BookingStatusBadge from "@/components/bookings/BookingStatusBadge";
+import { useRouter } from "next/navigation";
 import { Loader2 } from "lucide-react";
 
-const BookingsPage = () => {
-  const [page, setPage] = useState(1);
+const BookingsContent = () => {
+  const router = useRouter();
   const limit = 10;
-  const { data, isLoading, isError } = useGetBookings({ page, limit });
-
-  if (isLoading) {
-    return (
-      <div className="flex justify-center items-center h-full min-h-[50vh]">
-        <Loader2 className="animate-spin h-8 w-8 text-primary" />
-      </div>
-    );
-  }
+  const { filters, setFilters, clearFilters } = useBookingFilters();
+  const { page } = filters;
+  const setPage = (pageNum: number) => setFilters({ page: pageNum });
+  const { data, isLoading, isError } = useGetBookings(
+    toBookingsParams(filters, limit)
+  );
 
   if (isError) {
     return <div className="p-6 text-red-500">Error loading bookings</div>;
@@ -49,21 +50,30 @@ const BookingsPage = () => {
         <CardHeader>
           <CardTitle>Bookings</CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <BookingFilters
+            filters={filters}
+            onChange={setFilters}
+            onClear={clearFilters}
+          />
           <Table>
             <TableHeader>
               <TableRow>
                 <TableHead>Customer</TableHead>
                 <TableHead>Project</TableHead>
                 <TableHead>Plot</TableHead>
-                {/* <TableHead>Status</TableHead> */}
+                <TableHead>Status</TableHead>
                 <TableHead>Date</TableHead>
                 <TableHead className="text-right">Price</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {bookings?.map((booking) => (
-                <TableRow key={booking._id}>
+                <TableRow
+                  key={booking._id}
+                  className="cursor-pointer"
+                  onClick={() => router.push(`/bookings/${booking._id}`)}
+                >
                   <TableCell>
                     <div className="font-medium">
                       {booking.customerDetails.name}
@@ -84,22 +94,9 @@ const BookingsPage = () => {
                       {booking.plotId.area} {booking.plotId.areaUnit}
                     </div>
                   </TableCell>
-                  {/* <TableCell>
-                    <Badge
-                      variant={
-                        booking.bookingStatus === "confirmed"
-                          ? "default"
-                          : booking.bookingStatus === "pending"
-                          ? "secondary"
-                          : booking.bookingStatus === "cancelled"
-                          ? "destructive"
-                          : "outline"
-                      }
-                      className="capitalize"
-                    >
-                      {booking.bookingStatus}
-                    </Badge>
-                  </TableCell> */}
+                  <TableCell>
+                    <BookingStatusBadge status={booking.bookingStatus} />
+                  </TableCell>
                   <TableCell>
                     {format(new Date(booking.bookingDate), "PP")}
                   </TableCell>
@@ -111,7 +108,16 @@ const BookingsPage = () => {
                   </TableCell>
                 </TableRow>
               ))}
-              {!bookings?.length && (
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24">
+                    <div className="flex justify-center">
+                      <Loader2 className="animate-spin h-6 w-6 text-primary" />
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {!isLoading && !bookings?.length && (
                 <TableRow>
                   <TableCell colSpan={6} className="text-center h-24">
                     No bookings found.
@@ -197,4 +203,17 @@ const BookingsPage = () => {
   );
 };
 
+// useSearchParams needs a Suspense boundary to prerender the page
+const BookingsPage = () => (
+  <Suspense
+    fallback={
+      <div className="flex justify-center items-center h-full min-h-[50vh]">
+        <Loader2 className="animate-spin h-8 w-8 text-primary" />
+      </div>
+    }
+  >
+    <BookingsContent />
+  </Suspense>
+);
+
 export default BookingsPage;
@@ -20,6 +20,7 @@ import { Building2, Search, MapPin, Calendar, FileText } from "lucide-react";
 import { format } from "date-fns";
 import CreateProjectDialog from "@/components/projects/CreateProjectDialog";
 import { useRouter } from "next/navigation";
+import { usePermissions } from "@/hooks/usePermissions";
 
 type BadgeVariant = VariantProps<typeof badgeVariants>["variant"];
 
@@ -40,6 +41,7 @@ const getStatusBadgeVariant = (status: ProjectStatus): BadgeVariant => {
 
 const HomePage = () => {
   const router = useRouter();
+  const { can } = usePermissions();
   const [params, setParams] = useState<GetProjectsParams>({
     page: 1,
     limit: 10,
@@ -97,7 +99,7 @@ const HomePage = () => {
             Manage your land development projects
           </p>
         </div>
-        <CreateProjectDialog />
+        {can("project.create") && <CreateProjectDialog />}
       </div>
 
       {/* Filters */}
@@ -140,7 +142,7 @@ const HomePage = () => {
           <p className="mb-4 text-muted-foreground">
             Get started by creating your first project
           </p>
-          <CreateProjectDialog />
+          {can("project.create") && <CreateProjectDialog />}
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -0,0 +1,706 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { ArrowLeft, Loader2, X } from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LocationPicker } from "@/components/ui/location-picker";
+import ProjectFilesField from "@/components/projects/ProjectFilesField";
+import {
+  useProject,
+  useUpdateProject,
+  useUploadProjectDocuments,
+  useUploadProjectImages,
+} from "@/hooks/useProject";
+import {
+  updateProjectSchema,
+  UpdateProjectFormValues,
+} from "@/schema/project.schema";
+import { Project } from "@/types/project.types";
+
+const AREA_UNITS = [
+  "SQ_FT",
+  "SQ_METER",
+  "SQ_YARDS",
+  "ACRES",
+  "HECTARE",
+  "BIGHA",
+] as const;
+
+const toFormValues = (project: Project): UpdateProjectFormValues => ({
+  name: project.name,
+  reraNumber: project.reraNumber,
+  projectUse: project.projectUse,
+  legalStatus: project.legalStatus,
+  address: project.address,
+  location: project.location,
+  possessionDate: format(new Date(project.possessionDate), "yyyy-MM-dd"),
+  description: project.description,
+  approvalDocuments: project.approvalDocuments ?? [],
+  images: project.images ?? [],
+  sitePlan: project.sitePlan,
+  amenities: project.amenities ?? [],
+  developmentStatus: project.developmentStatus,
+  bookingTokenAmount: project.bookingTokenAmount,
+  totalArea: project.totalArea,
+  totalAreaUnit: project.totalAreaUnit,
+  priceRange: project.priceRange,
+});
+
+// Inputs for optional numbers keep blank as undefined instead of 0
+const optionalNumberProps = (field: {
+  value?: number;
+  onChange: (value: unknown) => void;
+}) => ({
+  value: field.value ?? "",
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) =>
+    field.onChange(e.target.value || undefined),
+});
+
+const AmenitiesInput = ({
+  value,
+  onChange,
+}: {
+  value: string[];
+  onChange: (value: string[]) => void;
+}) => {
+  const [draft, setDraft] = useState("");
+
+  const addAmenity = () => {
+    const amenity = draft.trim();
+    if (amenity && !value.includes(amenity)) {
+      onChange([...value, amenity]);
+    }
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input
+        placeholder="Type an amenity and press Enter"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault();
+            addAmenity();
+          }
+        }}
+        onBlur={addAmenity}
+      />
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((amenity) => (
+            <Badge key={amenity} variant="secondary" className="gap-1 pr-1">
+              {amenity}
+              <button
+                type="button"
+                className="rounded-full hover:bg-muted-foreground/20 p-0.5"
+                onClick={() => onChange(value.filter((a) => a !== amenity))}
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove {amenity}</span>
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const EditProjectPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const { data: projectData, isLoading, isError } = useProject(id);
+  const updateProject = useUpdateProject();
+  const uploadImages = useUploadProjectImages();
+  const uploadDocuments = useUploadProjectDocuments();
+
+  const [newImages, setNewImages] = useState<File[]>([]);
+  const [newDocuments, setNewDocuments] = useState<File[]>([]);
+  const [newSitePlan, setNewSitePlan] = useState<File[]>([]);
+
+  const form = useForm<UpdateProjectFormValues>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(updateProjectSchema) as any,
+  });
+
+  const project = projectData?.project;
+  useEffect(() => {
+    if (project) {
+      form.reset(toFormValues(project));
+    }
+  }, [project, form]);
+
+  const handleLocationSelect = (details: {
+    coordinates: [number, number];
+    placeName: string;
+    pincode?: string;
+    context?: { id: string; text: string }[];
+  }) => {
+    form.setValue("address.address", details.placeName);
+    if (details.context) {
+      const city = details.context.find((c) => c.id.startsWith("place"))?.text;
+      const state = details.context.find((c) =>
+        c.id.startsWith("region")
+      )?.text;
+      if (city) form.setValue("address.city", city);
+      if (state) form.setValue("address.state", state);
+    }
+    if (details.pincode) {
+      form.setValue("address.pincode", details.pincode);
+    }
+  };
+
+  const onSubmit = async (data: UpdateProjectFormValues) => {
+    try {
+      const imageUrls = newImages.length
+        ? await uploadImages.mutateAsync({ files: newImages, projectId: id })
+        : [];
+      const documentUrls = newDocuments.length
+        ? await uploadDocuments.mutateAsync({
+            files: newDocuments,
+            projectId: id,
+          })
+        : [];
+      const [sitePlanUrl] = newSitePlan.length
+        ? await uploadDocuments.mutateAsync({
+            files: newSitePlan,
+            projectId: id,
+          })
+        : [data.sitePlan];
+
+      await updateProject.mutateAsync({
+        projectId: id,
+        data: {
+          ...data,
+          images: [...(data.images ?? []), ...imageUrls],
+          approvalDocuments: [
+            ...(data.approvalDocuments ?? []),
+            ...documentUrls,
+          ],
+          sitePlan: sitePlanUrl ?? null,
+          possessionDate: data.possessionDate
+            ? new Date(data.possessionDate).toISOString()
+            : undefined,
+          location: data.location && {
+            type: "Point",
+            coordinates: [
+              Number(data.location.coordinates[0]),
+              Number(data.location.coordinates[1]),
+            ],
+          },
+        },
+      });
+      router.push(`/project/${id}`);
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  const isSubmitting =
+    updateProject.isPending ||
+    uploadImages.isPending ||
+    uploadDocuments.isPending;
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !project) {
+    return (
+      <div className="p-6 flex items-center justify-center h-[60vh]">
+        <Card className="p-8 text-center">
+          <p className="text-destructive mb-4">Failed to load project</p>
+          <Link href="/">
+            <Button variant="outline">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Projects
+            </Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const sitePlanUrls = form.watch("sitePlan") ? [form.watch("sitePlan")!] : [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="space-y-4">
+        <Link
+          href={`/project/${id}`}
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Project
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold">Edit {project.name}</h1>
+          <p className="text-muted-foreground mt-1">
+            Correct project details, location, pricing and files.
+          </p>
+        </div>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Basic Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Project Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="reraNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>RERA Number</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="projectUse"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Project Use</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select use" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="residential">
+                            Residential
+                          </SelectItem>
+                          <SelectItem value="commercial">Commercial</SelectItem>
+                          <SelectItem value="agricultural">
+                            Agricultural
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="legalStatus"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Legal Status</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select status" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="clear_title">
+                            Clear Title
+                          </SelectItem>
+                          <SelectItem value="pending_conversion">
+                            Pending Conversion
+                          </SelectItem>
+                          <SelectItem value="encumbrance_note">
+                            Encumbrance Note
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="developmentStatus"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Development Status</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select status" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="ready-to-develop">
+                            Ready to Develop
+                          </SelectItem>
+                          <SelectItem value="ready-to-move">
+                            Ready to Move
+                          </SelectItem>
+                          <SelectItem value="under-development">
+                            Under Development
+                          </SelectItem>
+                          <SelectItem value="phase-info">Phase Info</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="possessionDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Possession Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea className="min-h-[100px]" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="amenities"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amenities</FormLabel>
+                    <FormControl>
+                      <AmenitiesInput
+                        value={field.value ?? []}
+                        onChange={field.onChange}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Location</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="address.state"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>State</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="address.city"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>City</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="address.pincode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pincode</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="address.address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Address</FormLabel>
+                      <FormControl>
+                        <Textarea className="min-h-[100px]" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="location.coordinates"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <LocationPicker
+                        value={field.value as [number, number]}
+                        onChange={field.onChange}
+                        onLocationSelect={handleLocationSelect}
+                        className="h-full"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Area & Pricing</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="bookingTokenAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Booking Token Amount (₹)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        {...optionalNumberProps(field)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="totalArea"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Total Area</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        {...optionalNumberProps(field)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="totalAreaUnit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Area Unit</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select unit" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {AREA_UNITS.map((unit) => (
+                          <SelectItem key={unit} value={unit}>
+                            {unit.replace("SQ_", "Sq. ")}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="priceRange.min"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Price (₹)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        {...optionalNumberProps(field)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="priceRange.max"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Maximum Price (₹)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        {...optionalNumberProps(field)}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Leave both blank to hide the price range.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Files</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-8">
+              <ProjectFilesField
+                label="Project Images"
+                accept="image/*"
+                multiple
+                urls={form.watch("images") ?? []}
+                onUrlsChange={(urls) =>
+                  form.setValue("images", urls, { shouldDirty: true })
+                }
+                files={newImages}
+                onFilesChange={setNewImages}
+              />
+              <ProjectFilesField
+                label="Approval Documents"
+                accept="image/*,.pdf"
+                multiple
+                urls={form.watch("approvalDocuments") ?? []}
+                onUrlsChange={(urls) =>
+                  form.setValue("approvalDocuments", urls, {
+                    shouldDirty: true,
+                  })
+                }
+                files={newDocuments}
+                onFilesChange={setNewDocuments}
+              />
+              <div className="space-y-2">
+                <ProjectFilesField
+                  label="Site Plan (Image or PDF)"
+                  accept="image/*,.pdf"
+                  urls={sitePlanUrls}
+                  onUrlsChange={(urls) =>
+                    form.setValue("sitePlan", urls[0], { shouldDirty: true })
+                  }
+                  files={newSitePlan}
+                  onFilesChange={setNewSitePlan}
+                />
+                {project.georeference?.source === "sitePlan" &&
+                  (newSitePlan.length > 0 || sitePlanUrls.length === 0) && (
+                    <p className="text-sm text-yellow-700 dark:text-yellow-400">
+                      The plot map is aligned to the current site plan. Check
+                      the alignment in the Map tab after replacing it.
+                    </p>
+                  )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => router.push(`/project/${id}`)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Save Changes
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default EditProjectPage;
@@ -5,10 +5,11 @@ import { useParams } from "next/navigation";
 import { useProject, useActivateProject } from "@/hooks/useProject";
 import {
   usePlotsByProject,
+  useFetchAllPlots,
   useDeletePlot,
   useUpdatePlotStatus,
 } from "@/hooks/usePlot";
-import { PlotStatus } from "@/types/project.types";
+import { Block, Plot, PlotStatus } from "@/types/project.types";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge, badgeVariants } from "@/components/ui/badge";
@@ -61,17 +62,36 @@ import {
   Calendar,
   FileText,
   LandPlot,
+  Loader2,
   MapPin,
+  GripVertical,
   MoreVertical,
+  Pencil,
   Trash2,
 } from "lucide-react";
 import { format } from "date-fns";
 import Link from "next/link";
 import CreatePlotDialog from "@/components/plots/CreatePlotDialog";
+import EditPlotDialog from "@/components/plots/EditPlotDialog";
 import CreateBlockDialog from "@/components/blocks/CreateBlockDialog";
-// import PlotCanvas from "@/components/plots/CreatePlotDialog";
+import EditBlockDialog from "@/components/blocks/EditBlockDialog";
+import DeleteBlockDialog from "@/components/blocks/DeleteBlockDialog";
+import PlotCanvas from "@/components/plots/PlotCanvas";
+import SitePlanTracer from "@/components/plots/SitePlanTracer";
+import PlotGeoreferencer from "@/components/plots/PlotGeoreferencer";
+import ImportBoundariesDialog from "@/components/plots/ImportBoundariesDialog";
+import DxfImportDialog from "@/components/plots/DxfImportDialog";
+import ExportPlotsButton from "@/components/plots/ExportPlotsButton";
+import PricingRulesDialog from "@/components/projects/PricingRulesDialog";
+import PriceRevisionDialog from "@/components/plots/PriceRevisionDialog";
+import MovePlotsDialog from "@/components/plots/MovePlotsDialog";
+import PlotBulkActions from "@/components/plots/PlotBulkActions";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
-import { useBlocksByProject, useDeleteBlock } from "@/hooks/useBlock";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useBlocksByProject, useReorderBlocks } from "@/hooks/useBlock";
+import { usePermissions } from "@/hooks/usePermissions";
 
 type BadgeVariant = VariantProps<typeof badgeVariants>["variant"];
 
@@ -113,6 +133,15 @@ const ProjectPage = () => {
     currentStatus: null,
     newStatus: null,
   });
+  const [editingPlot, setEditingPlot] = useState<Plot | null>(null);
+  const [editingBlock, setEditingBlock] = useState<Block | null>(null);
+  const [deletingBlock, setDeletingBlock] = useState<Block | null>(null);
+  const [draggedBlockId, setDraggedBlockId] = useState<string | null>(null);
+  // Keyed by id so the selection survives paging through the table
+  // Only ids are kept; bulk actions load the plots fresh when they run
+  const [selectedPlotIds, setSelectedPlotIds] = useState<Set<string>>(
+    () => new Set()
+  );
 
   const {
     data: projectData,
@@ -121,15 +150,16 @@ const ProjectPage = () => {
     refetch: refetchProject,
   } = useProject(id);
   const activateProject = useActivateProject();
-  const {
-    data: plotsData,
-    isLoading: isPlotsLoading,
-    refetch: refetchPlots,
-  } = usePlotsByProject(id, plotFilters);
+  const { data: plotsData, isLoading: isPlotsLoading } = usePlotsByProject(
+    id,
+    plotFilters
+  );
   const { data: blocks, isLoading: isBlocksLoading } = useBlocksByProject(id);
   const deletePlot = useDeletePlot();
-  const deleteBlock = useDeleteBlock();
+  const fetchAllPlots = useFetchAllPlots();
+  const reorderBlocks = useReorderBlocks();
   const updatePlotStatus = useUpdatePlotStatus();
+  const { can } = usePermissions();
 
   const handleDeletePlot = async (plotId: string) => {
     if (confirm("Are you sure you want to delete this plot?")) {
@@ -137,21 +167,56 @@ const ProjectPage = () => {
     }
   };
 
-  const handleDeleteBlock = async (blockId: string) => {
-    if (
-      confirm(
-        "Are you sure you want to delete this block? This will fail if the block has plots."
-      )
-    ) {
-      try {
-        await deleteBlock.mutateAsync({ blockId, projectId: id });
-      } catch (error) {
-        console.error("Failed to delete block:", error);
-        alert("Failed to delete block. Ensure it has no plots.");
-      }
+  const pagePlots = plotsData?.plots ?? [];
+  const selectedCount = selectedPlotIds.size;
+  const isPageSelected =
+    pagePlots.length > 0 && pagePlots.every((p) => selectedPlotIds.has(p._id));
+  const isPageIndeterminate =
+    !isPageSelected && pagePlots.some((p) => selectedPlotIds.has(p._id));
+
+  const togglePlotSelection = (plot: Plot, checked: boolean) => {
+    setSelectedPlotIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(plot._id);
+      else next.delete(plot._id);
+      return next;
+    });
+  };
+
+  const togglePageSelection = (checked: boolean) => {
+    setSelectedPlotIds((prev) => {
+      const next = new Set(prev);
+      pagePlots.forEach((plot) => {
+        if (checked) next.add(plot._id);
+        else next.delete(plot._id);
+      });
+      return next;
+    });
+  };
+
+  const handleSelectAllMatching = async () => {
+    const { status, blockId, minPrice, maxPrice } = plotFilters;
+    try {
+      const plots = await fetchAllPlots.mutateAsync({
+        projectId: id,
+        params: { status, blockId, minPrice, maxPrice },
+      });
+      setSelectedPlotIds(new Set(plots.map((p) => p._id)));
+    } catch {
+      // Error is handled by the mutation hook
     }
   };
 
+  // Moves the dragged block into the drop target's position
+  const handleDropBlock = (targetBlockId: string) => {
+    if (!blocks || !draggedBlockId || draggedBlockId === targetBlockId) return;
+    const from = blocks.findIndex((b) => b._id === draggedBlockId);
+    const to = blocks.findIndex((b) => b._id === targetBlockId);
+    const reordered = [...blocks];
+    reordered.splice(to, 0, ...reordered.splice(from, 1));
+    reorderBlocks.mutate({ projectId: id, blocks: reordered });
+  };
+
   const handleOpenStatusUpdate = (
     plotId: string,
     plotNumber: string,
@@ -175,23 +240,19 @@ const ProjectPage = () => {
       return;
     }
 
-    try {
-      await updatePlotStatus.mutateAsync({
-        plotId: statusUpdateDialog.plotId,
-        data: { status: statusUpdateDialog.newStatus },
-      });
-      setStatusUpdateDialog({
-        isOpen: false,
-        plotId: null,
-        plotNumber: null,
-        currentStatus: null,
-        newStatus: null,
-      });
-      refetchPlots();
-      refetchProject();
-    } catch {
-      // Error is handled by the mutation hook
-    }
+    // The caches update optimistically, so the dialog can close right away
+    updatePlotStatus.mutate({
+      plotId: statusUpdateDialog.plotId,
+      projectId: id,
+      data: { status: statusUpdateDialog.newStatus },
+    });
+    setStatusUpdateDialog({
+      isOpen: false,
+      plotId: null,
+      plotNumber: null,
+      currentStatus: null,
+      newStatus: null,
+    });
   };
 
   const handleActivateProject = async () => {
@@ -275,7 +336,7 @@ const ProjectPage = () => {
             </div>
           </div>
           <div className="flex gap-2">
-            {project.projectStatus === "draft" && (
+            {project.projectStatus === "draft" && can("project.edit") && (
               <AlertDialog>
                 <AlertDialogTrigger asChild>
                   <Button variant="default">Activate Project</Button>
@@ -298,7 +359,14 @@ const ProjectPage = () => {
                 </AlertDialogContent>
               </AlertDialog>
             )}
-            {/* <Button variant="outline">Edit Project</Button> */}
+            {can("project.edit") && (
+              <Link href={`/project/${id}/edit`}>
+                <Button variant="outline">
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit Project
+                </Button>
+              </Link>
+            )}
             {/* <Button variant="default">View on Map</Button> */}
           </div>
         </div>
@@ -363,8 +431,15 @@ const ProjectPage = () => {
       {/* Block Management */}
       <div className="space-y-4">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-          <h2 className="text-xl font-semibold">Blocks / Phases</h2>
-          <CreateBlockDialog projectId={id} />
+          <div>
+            <h2 className="text-xl font-semibold">Blocks / Phases</h2>
+            {can("plot.edit") && (
+              <p className="text-sm text-muted-foreground">
+                Drag blocks to set the phase order.
+              </p>
+            )}
+          </div>
+          {can("plot.edit") && <CreateBlockDialog projectId={id} />}
         </div>
 
         {isBlocksLoading ? (
@@ -378,7 +453,7 @@ const ProjectPage = () => {
             <p className="text-muted-foreground mb-4">
               No blocks found. Create a block to start adding plots.
             </p>
-            <CreateBlockDialog projectId={id} />
+            {can("plot.edit") && <CreateBlockDialog projectId={id} />}
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
@@ -405,11 +480,24 @@ const ProjectPage = () => {
             {blocks?.map((block) => (
               <Card
                 key={block._id}
+                draggable={can("plot.edit")}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDraggedBlockId(block._id);
+                }}
+                onDragOver={(e) => {
+                  if (draggedBlockId) e.preventDefault();
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDropBlock(block._id);
+                }}
+                onDragEnd={() => setDraggedBlockId(null)}
                 className={`group relative cursor-pointer transition-all hover:border-primary ${
                   plotFilters.blockId === block._id
                     ? "border-primary ring-2 ring-primary/20"
                     : ""
-                }`}
+                } ${draggedBlockId === block._id ? "opacity-50" : ""}`}
                 onClick={() =>
                   setPlotFilters((prev) => ({
                     ...prev,
@@ -418,22 +506,38 @@ const ProjectPage = () => {
                   }))
                 }
               >
-                <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDeleteBlock(block._id);
-                    }}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
+                {can("plot.edit") && (
+                  <>
+                    <GripVertical className="absolute top-3 left-1.5 h-4 w-4 text-muted-foreground opacity-0 group-hover:opacity-100 cursor-grab" />
+                    <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setEditingBlock(block);
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setDeletingBlock(block);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </>
+                )}
                 <CardContent className="p-6">
                   <div className="flex justify-between items-start mb-2">
-                    <h3 className="text-lg font-semibold truncate pr-6">
+                    <h3 className="text-lg font-semibold truncate pr-16">
                       {block.name}
                     </h3>
                   </div>
@@ -462,7 +566,23 @@ const ProjectPage = () => {
       <div className="space-y-4">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <h2 className="text-xl font-semibold">Plot Inventory</h2>
-          <CreatePlotDialog projectId={id} />
+          <div className="flex gap-2">
+            {can("pricing.edit") && (
+              <>
+                <PricingRulesDialog project={project} />
+                <PriceRevisionDialog project={project} />
+              </>
+            )}
+            {can("plot.edit") && <MovePlotsDialog project={project} />}
+            <ExportPlotsButton project={project} filters={plotFilters} />
+            {can("plot.edit") && (
+              <>
+                <ImportBoundariesDialog project={project} />
+                <DxfImportDialog project={project} />
+                <CreatePlotDialog projectId={id} />
+              </>
+            )}
+          </div>
         </div>
 
         {/* Filters */}
@@ -490,14 +610,106 @@ const ProjectPage = () => {
               </SelectContent>
             </Select>
           </div>
-          {/* Add more filters like price range if needed */}
+          <div className="w-full sm:w-[200px]">
+            <Select
+              value={plotFilters.blockId || "all"}
+              onValueChange={(val) =>
+                setPlotFilters((prev) => ({
+                  ...prev,
+                  blockId: val === "all" ? undefined : val,
+                  page: 1,
+                }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Filter by block" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Blocks</SelectItem>
+                {blocks?.map((block) => (
+                  <SelectItem key={block._id} value={block._id}>
+                    {block.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              placeholder="Min price"
+              className="w-full sm:w-[140px]"
+              value={plotFilters.minPrice ?? ""}
+              onChange={(e) =>
+                setPlotFilters((prev) => ({
+                  ...prev,
+                  minPrice: e.target.value ? Number(e.target.value) : undefined,
+                  page: 1,
+                }))
+              }
+            />
+            <span className="text-muted-foreground">-</span>
+            <Input
+              type="number"
+              placeholder="Max price"
+              className="w-full sm:w-[140px]"
+              value={plotFilters.maxPrice ?? ""}
+              onChange={(e) =>
+                setPlotFilters((prev) => ({
+                  ...prev,
+                  maxPrice: e.target.value ? Number(e.target.value) : undefined,
+                  page: 1,
+                }))
+              }
+            />
+          </div>
         </div>
 
+        {selectedCount > 0 && (
+          <PlotBulkActions
+            project={project}
+            selectedPlotIds={selectedPlotIds}
+            onClear={() => setSelectedPlotIds(new Set())}
+          />
+        )}
+        {isPageSelected &&
+          plotsData &&
+          plotsData.pagination.total > selectedCount && (
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              All {pagePlots.length} plots on this page are selected.
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={handleSelectAllMatching}
+                disabled={fetchAllPlots.isPending}
+              >
+                {fetchAllPlots.isPending && (
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                )}
+                Select all {plotsData.pagination.total} plots matching filters
+              </Button>
+            </div>
+          )}
+
         {/* Plots Table */}
         <div className="rounded-md border bg-card">
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    aria-label="Select all plots on this page"
+                    checked={
+                      isPageSelected ||
+                      (isPageIndeterminate ? "indeterminate" : false)
+                    }
+                    onCheckedChange={(checked) =>
+                      togglePageSelection(checked === true)
+                    }
+                    disabled={pagePlots.length === 0}
+                  />
+                </TableHead>
                 <TableHead>Plot No.</TableHead>
                 <TableHead>Type</TableHead>
                 <TableHead>Area</TableHead>
@@ -511,20 +723,34 @@ const ProjectPage = () => {
               {isPlotsLoading ? (
                 [...Array(5)].map((_, i) => (
                   <TableRow key={i}>
-                    <TableCell colSpan={7}>
+                    <TableCell colSpan={8}>
                       <Skeleton className="h-12 w-full" />
                     </TableCell>
                   </TableRow>
                 ))
               ) : plotsData?.plots.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="h-24 text-center">
+                  <TableCell colSpan={8} className="h-24 text-center">
                     No plots found. Add your first plot!
                   </TableCell>
                 </TableRow>
               ) : (
                 plotsData?.plots.map((plot) => (
-                  <TableRow key={plot._id}>
+                  <TableRow
+                    key={plot._id}
+                    data-state={
+                      selectedPlotIds.has(plot._id) ? "selected" : undefined
+                    }
+                  >
+                    <TableCell>
+                      <Checkbox
+                        aria-label={`Select plot ${plot.plotNumber}`}
+                        checked={selectedPlotIds.has(plot._id)}
+                        onCheckedChange={(checked) =>
+                          togglePlotSelection(plot, checked === true)
+                        }
+                      />
+                    </TableCell>
                     <TableCell className="font-medium">
                       {plot.plotNumber}
                     </TableCell>
@@ -556,25 +782,39 @@ const ProjectPage = () => {
                         <DropdownMenuContent align="end">
                           <DropdownMenuLabel>Actions</DropdownMenuLabel>
                           <DropdownMenuItem>View Details</DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() =>
-                              handleOpenStatusUpdate(
-                                plot._id,
-                                plot.plotNumber,
-                                plot.status
-                              )
-                            }
-                          >
-                            Update Status
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem
-                            className="text-destructive focus:text-destructive"
-                            onClick={() => handleDeletePlot(plot._id)}
-                          >
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Delete Plot
-                          </DropdownMenuItem>
+                          {can("plot.edit") && (
+                            <DropdownMenuItem
+                              onClick={() => setEditingPlot(plot)}
+                            >
+                              <Pencil className="mr-2 h-4 w-4" />
+                              Edit Plot
+                            </DropdownMenuItem>
+                          )}
+                          {can("plot.status") && (
+                            <DropdownMenuItem
+                              onClick={() =>
+                                handleOpenStatusUpdate(
+                                  plot._id,
+                                  plot.plotNumber,
+                                  plot.status
+                                )
+                              }
+                            >
+                              Update Status
+                            </DropdownMenuItem>
+                          )}
+                          {can("plot.delete") && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive focus:text-destructive"
+                                onClick={() => handleDeletePlot(plot._id)}
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete Plot
+                              </DropdownMenuItem>
+                            </>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -616,6 +856,47 @@ const ProjectPage = () => {
         )}
       </div>
 
+      {/* Site Layout - every tab here saves positions or boundaries */}
+      {can("plot.edit") && (
+        <>
+          <Separator />
+
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold">Site Layout</h2>
+            <Tabs defaultValue="canvas">
+              <TabsList>
+                <TabsTrigger value="canvas">Canvas</TabsTrigger>
+                <TabsTrigger value="trace">Trace Site Plan</TabsTrigger>
+                <TabsTrigger value="map">Map</TabsTrigger>
+              </TabsList>
+              <TabsContent value="canvas" className="mt-4">
+                <PlotCanvas projectId={id} />
+              </TabsContent>
+              <TabsContent value="trace" className="mt-4">
+                <SitePlanTracer
+                  projectId={id}
+                  sitePlanUrl={project.sitePlan}
+                  georeference={project.georeference}
+                />
+              </TabsContent>
+              <TabsContent value="map" className="mt-4">
+                <PlotGeoreferencer project={project} />
+              </TabsContent>
+            </Tabs>
+          </div>
+        </>
+      )}
+
+      <EditBlockDialog
+        block={editingBlock}
+        onClose={() => setEditingBlock(null)}
+      />
+      <DeleteBlockDialog
+        block={deletingBlock}
+        onClose={() => setDeletingBlock(null)}
+      />
+      <EditPlotDialog plot={editingPlot} onClose={() => setEditingPlot(null)} />
+
       {/* Status Update Dialog */}
       <Dialog
         open={statusUpdateDialog.isOpen}
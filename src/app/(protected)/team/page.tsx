@@ -0,0 +1,229 @@
+"use client";
+
+import React, { useState } from "react";
+import { format } from "date-fns";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Mail, Trash2 } from "lucide-react";
+import {
+  useRemoveTeamMember,
+  useResendTeamInvite,
+  useTeamMembers,
+  useUpdateTeamMember,
+} from "@/hooks/useTeam";
+import { useAuthStore } from "@/stores/authStore";
+import InviteMemberDialog from "@/components/team/InviteMemberDialog";
+import { INVITABLE_ROLES, TEAM_ROLE_LABELS } from "@/schema/team.schema";
+import { TeamMember, UpdateTeamMemberInput } from "@/types/team.types";
+
+const TeamPage = () => {
+  const currentEmail = useAuthStore((state) => state.developer?.email);
+  const { data: members, isLoading, isError } = useTeamMembers();
+  const updateMember = useUpdateTeamMember();
+  const resendInvite = useResendTeamInvite();
+  const removeMember = useRemoveTeamMember();
+  const [removingMember, setRemovingMember] = useState<TeamMember | null>(null);
+
+  const handleRemove = async () => {
+    if (!removingMember) return;
+    try {
+      await removeMember.mutateAsync(removingMember._id);
+      setRemovingMember(null);
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  if (isError) {
+    return <div className="p-6 text-red-500">Error loading team members</div>;
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Team</CardTitle>
+          <InviteMemberDialog />
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Since</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members?.map((member) => {
+                // The owner and your own login keep their role
+                const isFixed =
+                  member.role === "owner" || member.email === currentEmail;
+                const name = [member.firstName, member.lastName]
+                  .filter(Boolean)
+                  .join(" ");
+                return (
+                  <TableRow key={member._id}>
+                    <TableCell>
+                      <div className="font-medium">{name || member.email}</div>
+                      {name && (
+                        <div className="text-xs text-muted-foreground">
+                          {member.email}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {isFixed ? (
+                        TEAM_ROLE_LABELS[member.role]
+                      ) : (
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) =>
+                            updateMember.mutate({
+                              memberId: member._id,
+                              data: {
+                                role: role as UpdateTeamMemberInput["role"],
+                              },
+                            })
+                          }
+                          disabled={updateMember.isPending}
+                        >
+                          <SelectTrigger className="w-[140px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {INVITABLE_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {TEAM_ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          member.status === "active" ? "default" : "secondary"
+                        }
+                      >
+                        {member.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {format(
+                        new Date(member.joinedAt ?? member.invitedAt),
+                        "PP"
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!isFixed && (
+                        <div className="flex justify-end gap-1">
+                          {member.status === "invited" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => resendInvite.mutate(member._id)}
+                              disabled={resendInvite.isPending}
+                            >
+                              <Mail className="mr-2 h-4 w-4" />
+                              Resend
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => setRemovingMember(member)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24">
+                    <div className="flex justify-center">
+                      <Loader2 className="animate-spin h-6 w-6 text-primary" />
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {!isLoading && !members?.length && (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    No team members yet. Invite your first colleague.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={!!removingMember}
+        onOpenChange={(isOpen) => !isOpen && setRemovingMember(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove team member?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {removingMember?.email} will lose access to all projects straight
+              away. Their past bookings and changes are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRemove();
+              }}
+              disabled={removeMember.isPending}
+            >
+              {removeMember.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TeamPage;
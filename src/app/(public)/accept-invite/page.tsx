@@ -0,0 +1,255 @@
+"use client";
+import React, { Suspense } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { zodResolver } from "@hookform/resolvers/zod";
+import useAxios, { ApiResponse } from "@/hooks/useAxios";
+import { useAuthStore } from "@/stores/authStore";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+} from "@/components/ui/form";
+import Link from "next/link";
+import AuthLayout from "@/components/auth/AuthLayout";
+import { getAuthErrorMessage } from "@/lib/authErrors";
+import { setApiFormErrors } from "@/lib/apiErrors";
+import {
+  acceptInviteSchema,
+  AcceptInviteFormValues,
+} from "@/schema/team.schema";
+import { TeamRole } from "@/types/team.types";
+
+const inputClassName =
+  "w-full bg-zinc-950 border border-zinc-800 text-white text-sm rounded-lg px-4 py-3 focus:outline-none focus:border-zinc-600 focus:ring-1 focus:ring-zinc-600 transition-all placeholder-zinc-700 shadow-sm";
+
+const FIELDS: {
+  name: Exclude<keyof AcceptInviteFormValues, "firstName" | "lastName">;
+  label: string;
+  type: string;
+  placeholder: string;
+  autoComplete: string;
+}[] = [
+  {
+    name: "contactNumber",
+    label: "Contact Number",
+    type: "tel",
+    placeholder: "9876543210",
+    autoComplete: "tel",
+  },
+  {
+    name: "password",
+    label: "Password",
+    type: "password",
+    placeholder: "••••••••",
+    autoComplete: "new-password",
+  },
+  {
+    name: "confirmPassword",
+    label: "Confirm password",
+    type: "password",
+    placeholder: "••••••••",
+    autoComplete: "new-password",
+  },
+];
+
+const AcceptInviteForm = () => {
+  const api = useAxios();
+  const router = useRouter();
+  const login = useAuthStore((state) => state.login);
+  const token = useSearchParams().get("token");
+
+  const form = useForm<AcceptInviteFormValues>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(acceptInviteSchema) as any,
+    defaultValues: {
+      firstName: "",
+      lastName: "",
+      contactNumber: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const { mutate, isPending } = useMutation<
+    ApiResponse<{
+      developer: {
+        _id: string;
+        firstName: string;
+        lastName: string;
+        email: string;
+        contactNumber: string;
+        status: "pending" | "approved" | "blacklisted";
+        role: TeamRole;
+      };
+      token: string;
+      refreshToken?: string;
+    }>,
+    unknown,
+    AcceptInviteFormValues
+  >({
+    mutationFn: async ({ firstName, lastName, contactNumber, password }) => {
+      return (
+        await api.post("/developers/team/accept", {
+          token,
+          firstName,
+          lastName,
+          contactNumber,
+          password,
+        })
+      ).data;
+    },
+    onSuccess: ({ data }) => {
+      login(data.developer, data.token, data.refreshToken);
+      toast.success("Welcome to the team");
+      router.push("/");
+    },
+    onError: (error) => {
+      const message = getAuthErrorMessage(
+        error,
+        "This invitation is invalid or has expired"
+      );
+      if (!setApiFormErrors(form, error)) {
+        form.setError("root", { message });
+      }
+      toast.error(message);
+    },
+  });
+
+  if (!token) {
+    return (
+      <div className="w-full max-w-[380px] space-y-6 text-center">
+        <h1 className="text-2xl font-medium tracking-tight text-white">
+          Invitation link is invalid
+        </h1>
+        <p className="text-sm text-zinc-500 font-normal">
+          Open the link from your invitation email, or ask the account owner to
+          send a new one.
+        </p>
+        <Link
+          href="/login"
+          className="inline-flex w-full bg-white text-black hover:bg-zinc-200 font-medium rounded-lg text-sm px-5 py-3 justify-center transition-all duration-200"
+        >
+          Go to sign in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-[420px] space-y-8">
+      {/* Header */}
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-medium tracking-tight text-white">
+          Join your team
+        </h1>
+        <p className="text-sm text-zinc-500 font-normal">
+          Set up your login to start working on your team&apos;s projects.
+        </p>
+      </div>
+
+      {/* Form */}
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((data) => mutate(data))}
+          className="space-y-4"
+        >
+          {form.formState.errors.root && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm text-center">
+              {form.formState.errors.root.message}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            {(["firstName", "lastName"] as const).map((name) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem className="space-y-1.5">
+                    <FormLabel className="text-xs font-medium text-zinc-400 block ml-1">
+                      {name === "firstName" ? "First Name" : "Last Name"}
+                    </FormLabel>
+                    <FormControl>
+                      <input
+                        {...field}
+                        type="text"
+                        autoComplete={
+                          name === "firstName" ? "given-name" : "family-name"
+                        }
+                        className={inputClassName}
+                      />
+                    </FormControl>
+                    <FormMessage className="text-red-400 text-xs" />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+
+          {FIELDS.map(({ name, label, ...inputProps }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem className="space-y-1.5">
+                  <FormLabel className="text-xs font-medium text-zinc-400 block ml-1">
+                    {label}
+                  </FormLabel>
+                  <FormControl>
+                    <input
+                      {...field}
+                      {...inputProps}
+                      className={inputClassName}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-red-400 text-xs" />
+                </FormItem>
+              )}
+            />
+          ))}
+
+          {/* Submit Button */}
+          <button
+            type="submit"
+            disabled={isPending}
+            className="w-full bg-white text-black hover:bg-zinc-200 focus:ring-4 focus:ring-zinc-800 font-medium rounded-lg text-sm px-5 py-3 text-center transition-all duration-200 shadow-[0_0_20px_rgba(255,255,255,0.1)] hover:shadow-[0_0_25px_rgba(255,255,255,0.2)] disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center"
+          >
+            {isPending ? "Joining..." : "Join team"}
+          </button>
+        </form>
+      </Form>
+
+      {/* Footer Sign In */}
+      <p className="text-center text-xs text-zinc-500 pt-4">
+        Already set up your login?{" "}
+        <Link
+          href="/login"
+          className="font-medium text-white hover:underline decoration-zinc-500 underline-offset-4 transition-all"
+        >
+          Sign in
+        </Link>
+      </p>
+    </div>
+  );
+};
+
+const AcceptInvitePage = () => {
+  return (
+    <AuthLayout tagline="Your team already runs its projects on Brokwise. Set up your login to join them.">
+      {/* useSearchParams needs a suspense boundary for static rendering */}
+      <Suspense>
+        <AcceptInviteForm />
+      </Suspense>
+    </AuthLayout>
+  );
+};
+
+export default AcceptInvitePage;
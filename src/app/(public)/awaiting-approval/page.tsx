@@ -15,8 +15,8 @@ const AwaitingApprovalPage = () => {
   // Poll for developer status
   const { data: developerData } = useQuery({
     queryKey: ["developerProfilePoll"],
-    queryFn: async () => {
-      return (await api.get("/developers/me")).data.data;
+    queryFn: async ({ signal }) => {
+      return (await api.get("/developers/me", { signal })).data.data;
     },
     refetchInterval: 5000, // Check every 5 seconds
   });
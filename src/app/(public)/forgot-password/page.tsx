@@ -1,7 +1,289 @@
-import React from "react";
+"use client";
+import React, { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import useAxios, { ApiResponse } from "@/hooks/useAxios";
+import { useRouter } from "next/navigation";
+import { useMutation } from "@tanstack/react-query";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import Link from "next/link";
+import AuthLayout from "@/components/auth/AuthLayout";
+import {
+  formatWait,
+  getAuthErrorMessage,
+  getRetryAfterSeconds,
+} from "@/lib/authErrors";
+import { setApiFormErrors } from "@/lib/apiErrors";
 
-const ForgotPassword = () => {
-  return <div>ForgotPassword</div>;
+const OTP_LENGTH = 6;
+// Wait before another code can be requested, unless the API says otherwise
+const RESEND_COOLDOWN_SECONDS = 60;
+
+const emailSchema = z.object({
+  email: z.email("Invalid email address"),
+});
+
+const otpSchema = z.object({
+  otp: z
+    .string()
+    .regex(
+      new RegExp(`^\\d{${OTP_LENGTH}}$`),
+      `Enter the ${OTP_LENGTH}-digit code`
+    ),
+});
+
+const ForgotPasswordPage = () => {
+  const api = useAxios();
+  const router = useRouter();
+  const [email, setEmail] = useState<string | null>(null);
+  const [cooldown, setCooldown] = useState(0);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown((s) => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const emailForm = useForm<z.infer<typeof emailSchema>>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: { email: "" },
+  });
+
+  const otpForm = useForm<z.infer<typeof otpSchema>>({
+    resolver: zodResolver(otpSchema),
+    defaultValues: { otp: "" },
+  });
+
+  const requestCode = useMutation({
+    mutationFn: async (data: z.infer<typeof emailSchema>) => {
+      return (await api.post("/developers/forgot-password", data)).data;
+    },
+    onSuccess: (_data, variables) => {
+      // The same message is shown whether or not the account exists
+      toast.success("If an account exists, a reset code is on its way");
+      setEmail(variables.email);
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+      otpForm.reset({ otp: "" });
+    },
+    onError: (error) => {
+      setCooldown(getRetryAfterSeconds(error) ?? 0);
+      const message = getAuthErrorMessage(error, "Could not send reset code");
+      if (email) {
+        otpForm.setError("root", { message });
+      } else if (!setApiFormErrors(emailForm, error)) {
+        emailForm.setError("root", { message });
+      }
+      toast.error(message);
+    },
+  });
+
+  const verifyCode = useMutation<
+    ApiResponse<{ resetToken: string }>,
+    unknown,
+    z.infer<typeof otpSchema>
+  >({
+    mutationFn: async ({ otp }) => {
+      return (await api.post("/developers/verify-reset-otp", { email, otp }))
+        .data;
+    },
+    onSuccess: ({ data }) => {
+      router.push(
+        `/reset-password?token=${encodeURIComponent(data.resetToken)}`
+      );
+    },
+    onError: (error) => {
+      const message = getAuthErrorMessage(error, "Invalid or expired code");
+      otpForm.setValue("otp", "");
+      if (!setApiFormErrors(otpForm, error)) {
+        otpForm.setError("root", { message });
+      }
+    },
+  });
+
+  const handleChangeEmail = () => {
+    setEmail(null);
+    otpForm.reset({ otp: "" });
+    emailForm.clearErrors();
+  };
+
+  return (
+    <AuthLayout tagline="Locked out? Verify your email and set a new password to get back to your projects.">
+      <div className="w-full max-w-[380px] space-y-8">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-2xl font-medium tracking-tight text-white">
+            {email ? "Check your email" : "Reset your password"}
+          </h1>
+          <p className="text-sm text-zinc-500 font-normal">
+            {email ? (
+              <>
+                Enter the {OTP_LENGTH}-digit code sent to{" "}
+                <span className="text-zinc-300">{email}</span>.
+              </>
+            ) : (
+              "Enter your account email and we'll send you a reset code."
+            )}
+          </p>
+        </div>
+
+        {!email ? (
+          <Form {...emailForm}>
+            <form
+              onSubmit={emailForm.handleSubmit((data) =>
+                requestCode.mutate(data)
+              )}
+              className="space-y-5"
+            >
+              {emailForm.formState.errors.root && (
+                <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm text-center">
+                  {emailForm.formState.errors.root.message}
+                </div>
+              )}
+
+              {/* Email Input */}
+              <FormField
+                control={emailForm.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem className="space-y-1.5">
+                    <FormLabel className="text-xs font-medium text-zinc-400 block ml-1">
+                      Email address
+                    </FormLabel>
+                    <FormControl>
+                      <input
+                        {...field}
+                        type="email"
+                        placeholder="name@company.com"
+                        autoComplete="email"
+                        className="w-full bg-zinc-950 border border-zinc-800 text-white text-sm rounded-lg px-4 py-3 focus:outline-none focus:border-zinc-600 focus:ring-1 focus:ring-zinc-600 transition-all placeholder-zinc-700 shadow-sm"
+                      />
+                    </FormControl>
+                    <FormMessage className="text-red-400 text-xs" />
+                  </FormItem>
+                )}
+              />
+
+              {/* Submit Button */}
+              <button
+                type="submit"
+                disabled={requestCode.isPending || cooldown > 0}
+                className="w-full bg-white text-black hover:bg-zinc-200 focus:ring-4 focus:ring-zinc-800 font-medium rounded-lg text-sm px-5 py-3 text-center transition-all duration-200 shadow-[0_0_20px_rgba(255,255,255,0.1)] hover:shadow-[0_0_25px_rgba(255,255,255,0.2)] disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center"
+              >
+                {requestCode.isPending
+                  ? "Sending code..."
+                  : cooldown > 0
+                  ? `Try again in ${formatWait(cooldown)}`
+                  : "Send reset code"}
+              </button>
+            </form>
+          </Form>
+        ) : (
+          <Form {...otpForm}>
+            <form
+              onSubmit={otpForm.handleSubmit((data) => verifyCode.mutate(data))}
+              className="space-y-5"
+            >
+              {otpForm.formState.errors.root && (
+                <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm text-center">
+                  {otpForm.formState.errors.root.message}
+                </div>
+              )}
+
+              {/* OTP Input */}
+              <FormField
+                control={otpForm.control}
+                name="otp"
+                render={({ field }) => (
+                  <FormItem className="space-y-1.5 flex flex-col items-center">
+                    <FormLabel className="sr-only">Reset code</FormLabel>
+                    <FormControl>
+                      <InputOTP
+                        maxLength={OTP_LENGTH}
+                        pattern={REGEXP_ONLY_DIGITS}
+                        autoFocus
+                        {...field}
+                        onComplete={() =>
+                          otpForm.handleSubmit((data) =>
+                            verifyCode.mutate(data)
+                          )()
+                        }
+                      >
+                        <InputOTPGroup>
+                          {Array.from({ length: OTP_LENGTH }, (_, i) => (
+                            <InputOTPSlot
+                              key={i}
+                              index={i}
+                              className="h-12 w-12 text-base border-zinc-800 bg-zinc-950 text-white"
+                            />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    </FormControl>
+                    <FormMessage className="text-red-400 text-xs" />
+                  </FormItem>
+                )}
+              />
+
+              {/* Submit Button */}
+              <button
+                type="submit"
+                disabled={verifyCode.isPending}
+                className="w-full bg-white text-black hover:bg-zinc-200 focus:ring-4 focus:ring-zinc-800 font-medium rounded-lg text-sm px-5 py-3 text-center transition-all duration-200 shadow-[0_0_20px_rgba(255,255,255,0.1)] hover:shadow-[0_0_25px_rgba(255,255,255,0.2)] disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center"
+              >
+                {verifyCode.isPending ? "Verifying..." : "Verify code"}
+              </button>
+
+              <div className="flex items-center justify-between text-xs text-zinc-500">
+                <button
+                  type="button"
+                  onClick={handleChangeEmail}
+                  className="hover:text-white transition-colors"
+                >
+                  Use a different email
+                </button>
+                <button
+                  type="button"
+                  disabled={requestCode.isPending || cooldown > 0}
+                  onClick={() => requestCode.mutate({ email })}
+                  className="hover:text-white transition-colors disabled:opacity-60 disabled:hover:text-zinc-500 disabled:cursor-not-allowed"
+                >
+                  {cooldown > 0
+                    ? `Resend code in ${formatWait(cooldown)}`
+                    : "Resend code"}
+                </button>
+              </div>
+            </form>
+          </Form>
+        )}
+
+        {/* Footer Sign In */}
+        <p className="text-center text-xs text-zinc-500 pt-4">
+          Remembered your password?{" "}
+          <Link
+            href="/login"
+            className="font-medium text-white hover:underline decoration-zinc-500 underline-offset-4 transition-all"
+          >
+            Sign in
+          </Link>
+        </p>
+      </div>
+    </AuthLayout>
+  );
 };
 
-export default ForgotPassword;
+export default ForgotPasswordPage;
@@ -0,0 +1,198 @@
+"use client";
+import React, { Suspense } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import useAxios from "@/hooks/useAxios";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+} from "@/components/ui/form";
+import Link from "next/link";
+import AuthLayout from "@/components/auth/AuthLayout";
+import { getAuthErrorMessage } from "@/lib/authErrors";
+import { setApiFormErrors } from "@/lib/apiErrors";
+
+const formSchema = z
+  .object({
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+const ResetPasswordForm = () => {
+  const api = useAxios();
+  const router = useRouter();
+  const token = useSearchParams().get("token");
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: async ({ password }: z.infer<typeof formSchema>) => {
+      return (await api.post("/developers/reset-password", { token, password }))
+        .data;
+    },
+    onSuccess: () => {
+      toast.success("Password updated, please sign in");
+      router.push("/login");
+    },
+    onError: (error) => {
+      const message = getAuthErrorMessage(
+        error,
+        "This reset link is invalid or has expired"
+      );
+      if (!setApiFormErrors(form, error)) {
+        form.setError("root", { message });
+      }
+      toast.error(message);
+    },
+  });
+
+  if (!token) {
+    return (
+      <div className="w-full max-w-[380px] space-y-6 text-center">
+        <h1 className="text-2xl font-medium tracking-tight text-white">
+          Reset link is invalid
+        </h1>
+        <p className="text-sm text-zinc-500 font-normal">
+          This page needs a verified reset code. Request a new code to continue.
+        </p>
+        <Link
+          href="/forgot-password"
+          className="inline-flex w-full bg-white text-black hover:bg-zinc-200 font-medium rounded-lg text-sm px-5 py-3 justify-center transition-all duration-200"
+        >
+          Request a new code
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-[380px] space-y-8">
+      {/* Header */}
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-medium tracking-tight text-white">
+          Set a new password
+        </h1>
+        <p className="text-sm text-zinc-500 font-normal">
+          Choose a password you haven&apos;t used for this account before.
+        </p>
+      </div>
+
+      {/* Form */}
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((data) => mutate(data))}
+          className="space-y-5"
+        >
+          {form.formState.errors.root && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm text-center">
+              {form.formState.errors.root.message}{" "}
+              <Link
+                href="/forgot-password"
+                className="font-medium text-white hover:underline underline-offset-4"
+              >
+                Request a new code
+              </Link>
+            </div>
+          )}
+
+          {/* Password Input */}
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem className="space-y-1.5">
+                <FormLabel className="text-xs font-medium text-zinc-400 block ml-1">
+                  New password
+                </FormLabel>
+                <FormControl>
+                  <input
+                    {...field}
+                    type="password"
+                    placeholder="••••••••"
+                    autoComplete="new-password"
+                    className="w-full bg-zinc-950 border border-zinc-800 text-white text-sm rounded-lg px-4 py-3 focus:outline-none focus:border-zinc-600 focus:ring-1 focus:ring-zinc-600 transition-all placeholder-zinc-700 shadow-sm"
+                  />
+                </FormControl>
+                <FormMessage className="text-red-400 text-xs" />
+              </FormItem>
+            )}
+          />
+
+          {/* Confirm Password Input */}
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem className="space-y-1.5">
+                <FormLabel className="text-xs font-medium text-zinc-400 block ml-1">
+                  Confirm password
+                </FormLabel>
+                <FormControl>
+                  <input
+                    {...field}
+                    type="password"
+                    placeholder="••••••••"
+                    autoComplete="new-password"
+                    className="w-full bg-zinc-950 border border-zinc-800 text-white text-sm rounded-lg px-4 py-3 focus:outline-none focus:border-zinc-600 focus:ring-1 focus:ring-zinc-600 transition-all placeholder-zinc-700 shadow-sm"
+                  />
+                </FormControl>
+                <FormMessage className="text-red-400 text-xs" />
+              </FormItem>
+            )}
+          />
+
+          {/* Submit Button */}
+          <button
+            type="submit"
+            disabled={isPending}
+            className="w-full bg-white text-black hover:bg-zinc-200 focus:ring-4 focus:ring-zinc-800 font-medium rounded-lg text-sm px-5 py-3 text-center transition-all duration-200 shadow-[0_0_20px_rgba(255,255,255,0.1)] hover:shadow-[0_0_25px_rgba(255,255,255,0.2)] disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center"
+          >
+            {isPending ? "Updating password..." : "Update password"}
+          </button>
+        </form>
+      </Form>
+
+      {/* Footer Sign In */}
+      <p className="text-center text-xs text-zinc-500 pt-4">
+        Remembered your password?{" "}
+        <Link
+          href="/login"
+          className="font-medium text-white hover:underline decoration-zinc-500 underline-offset-4 transition-all"
+        >
+          Sign in
+        </Link>
+      </p>
+    </div>
+  );
+};
+
+const ResetPasswordPage = () => {
+  return (
+    <AuthLayout tagline="Locked out? Verify your email and set a new password to get back to your projects.">
+      {/* useSearchParams needs a suspense boundary for static rendering */}
+      <Suspense>
+        <ResetPasswordForm />
+      </Suspense>
+    </AuthLayout>
+  );
+};
+
+export default ResetPasswordPage;
@@ -3,6 +3,7 @@ import localFont from "next/font/local";
 import "./globals.css";
 import QueryClientProviderComponent from "@/providers/QueryClientProvider";
 import { Toaster } from "@/components/ui/sonner";
+import ApiDiagnosticsPanel from "@/components/dev/ApiDiagnosticsPanel";
 
 const geistSans = localFont({
   src: "./fonts/GeistVF.woff",
@@ -40,6 +41,7 @@ export default function RootLayout({
           <QueryClientProviderComponent>
             <Toaster />
             {children}
+            <ApiDiagnosticsPanel />
           </QueryClientProviderComponent>
         </ThemeProvider>
       </body>
@@ -0,0 +1,82 @@
+import React from "react";
+import Link from "next/link";
+import { Quote, ArrowRight, ShieldCheck } from "lucide-react";
+
+interface AuthLayoutProps {
+  tagline: string;
+  children: React.ReactNode;
+}
+
+// Split brand/form layout shared by the login, register and password reset pages
+const AuthLayout = ({ tagline, children }: AuthLayoutProps) => {
+  return (
+    <div className="bg-black text-white min-h-screen flex w-full selection:bg-zinc-800 selection:text-white font-sans">
+      {/* Left Panel: Visual/Brand (Hidden on Mobile) */}
+      <div className="hidden lg:flex lg:w-1/2 relative flex-col justify-between p-12 overflow-hidden border-r border-zinc-900">
+        {/* Background Gradients */}
+        <div className="absolute inset-0 bg-zinc-950 bg-grain z-0"></div>
+        <div className="absolute top-[-20%] left-[-20%] w-[80%] h-[80%] bg-zinc-900/20 blur-[120px] rounded-full pointer-events-none"></div>
+        <div className="absolute bottom-[-10%] right-[-10%] w-[60%] h-[60%] bg-zinc-800/10 blur-[100px] rounded-full pointer-events-none"></div>
+
+        {/* Grid Pattern */}
+        <div
+          className="absolute inset-0 z-0 opacity-[0.03]"
+          style={{
+            backgroundImage:
+              "linear-gradient(#fff 1px, transparent 1px), linear-gradient(90deg, #fff 1px, transparent 1px)",
+            backgroundSize: "60px 60px",
+          }}
+        ></div>
+
+        {/* Logo */}
+        <div className="relative z-10">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="h-6 w-6 text-white" />
+            <span className="text-lg font-medium tracking-tighter text-white">
+              BROKWISE DEVELOPER
+            </span>
+          </div>
+        </div>
+
+        {/* Testimonial / Art Content */}
+        <div className="relative z-10 max-w-lg">
+          <Quote className="text-zinc-600 mb-6 h-6 w-6" />
+          <p className="text-xl font-light leading-relaxed text-zinc-300 tracking-tight">
+            {tagline}
+          </p>
+          <div className="mt-8 flex items-center gap-4"></div>
+        </div>
+
+        {/* Footer Meta */}
+        <div className="relative z-10 flex justify-between items-end text-xs text-zinc-600 font-medium uppercase tracking-widest">
+          <span>© 2025 Brokwise</span>
+        </div>
+      </div>
+
+      {/* Right Panel: Form */}
+      <div className="w-full lg:w-1/2 flex items-center justify-center p-8 bg-black relative z-20">
+        {/* Mobile Logo (Visible only on small screens) */}
+        <div className="absolute top-8 left-8 lg:hidden">
+          <span className="text-lg font-medium tracking-tighter text-white">
+            BROKWISE DEVELOPER
+          </span>
+        </div>
+
+        {children}
+
+        {/* Bottom Right Help */}
+        <div className="absolute bottom-8 right-8">
+          <Link
+            href="#"
+            className="flex items-center gap-2 text-zinc-600 hover:text-zinc-400 transition-colors"
+          >
+            <span className="text-xs font-medium">Help & Support</span>
+            <ArrowRight size={14} />
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuthLayout;
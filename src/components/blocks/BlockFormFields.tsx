@@ -0,0 +1,194 @@
+import React from "react";
+import { UseFormReturn } from "react-hook-form";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BlockFormValues } from "@/schema/block.schema";
+import { AREA_UNITS, FACING_OPTS, PLOT_TYPES } from "@/schema/plot.schema";
+
+// Select items cannot hold an empty value, so "no default" gets a sentinel
+const NO_DEFAULT = "__none__";
+
+interface DefaultSelectProps {
+  value?: string;
+  onChange: (value: string | undefined) => void;
+  options: readonly string[];
+  formatOption?: (option: string) => string;
+}
+
+const DefaultSelect = ({
+  value,
+  onChange,
+  options,
+  formatOption = (option) => option,
+}: DefaultSelectProps) => (
+  <Select
+    value={value ?? NO_DEFAULT}
+    onValueChange={(val) => onChange(val === NO_DEFAULT ? undefined : val)}
+  >
+    <FormControl>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+    </FormControl>
+    <SelectContent>
+      <SelectItem value={NO_DEFAULT}>No default</SelectItem>
+      {options.map((option) => (
+        <SelectItem key={option} value={option}>
+          {formatOption(option)}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface BlockFormFieldsProps {
+  form: UseFormReturn<BlockFormValues>;
+}
+
+// Fields shared by the create and edit block dialogs
+const BlockFormFields = ({ form }: BlockFormFieldsProps) => (
+  <>
+    <FormField
+      control={form.control}
+      name="name"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Block Name</FormLabel>
+          <FormControl>
+            <Input placeholder="Phase 1 or Block A" {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+
+    <FormField
+      control={form.control}
+      name="description"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Description</FormLabel>
+          <FormControl>
+            <Input placeholder="Optional description" {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+
+    <FormField
+      control={form.control}
+      name="status"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Status</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder="Select status" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="inactive">Inactive</SelectItem>
+              <SelectItem value="completed">Completed</SelectItem>
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+
+    <div className="p-4 border rounded-md bg-muted/20 space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold">Plot Defaults</h4>
+        <FormDescription>
+          Pre-filled when a plot is added to this block.
+        </FormDescription>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="plotDefaults.areaUnit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Area Unit</FormLabel>
+              <DefaultSelect
+                value={field.value}
+                onChange={field.onChange}
+                options={AREA_UNITS}
+                formatOption={(unit) => unit.replace("SQ_", "Sq. ")}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="plotDefaults.pricePerUnit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Price / Unit</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  {...field}
+                  value={field.value ?? ""}
+                  onChange={(e) => field.onChange(e.target.value || undefined)}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="plotDefaults.facing"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Facing</FormLabel>
+              <DefaultSelect
+                value={field.value}
+                onChange={field.onChange}
+                options={FACING_OPTS}
+                formatOption={(f) => f.replace("_", " ")}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="plotDefaults.plotType"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Plot Type</FormLabel>
+              <DefaultSelect
+                value={field.value}
+                onChange={field.onChange}
+                options={PLOT_TYPES}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  </>
+);
+
+export default BlockFormFields;
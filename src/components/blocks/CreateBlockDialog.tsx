@@ -1,7 +1,6 @@
 import React, { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
 import {
   Dialog,
   DialogContent,
@@ -10,34 +9,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import {
-  Form,
-  FormControl,
-  FormField,
-  FormItem,
-  FormLabel,
-  FormMessage,
-} from "@/components/ui/form";
-import { Input } from "@/components/ui/input";
+import { Form } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
 import { Loader2, Plus } from "lucide-react";
-import { useCreateBlock } from "@/hooks/useBlock";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-
-// Validation Schema
-const createBlockSchema = z.object({
-  name: z.string().min(1, "Block name is required"),
-  description: z.string().optional(),
-  status: z.enum(["active", "inactive", "completed"]),
-});
-
-type CreateBlockFormValues = z.infer<typeof createBlockSchema>;
+import { useBlocksByProject, useCreateBlock } from "@/hooks/useBlock";
+import BlockFormFields from "@/components/blocks/BlockFormFields";
+import { blockSchema, BlockFormValues } from "@/schema/block.schema";
+import { setApiFormErrors } from "@/lib/apiErrors";
 
 interface CreateBlockDialogProps {
   projectId: string;
@@ -47,9 +25,11 @@ interface CreateBlockDialogProps {
 const CreateBlockDialog = ({ projectId, trigger }: CreateBlockDialogProps) => {
   const [open, setOpen] = useState(false);
   const createBlock = useCreateBlock();
+  const { data: blocks } = useBlocksByProject(projectId);
 
-  const form = useForm<CreateBlockFormValues>({
-    resolver: zodResolver(createBlockSchema),
+  const form = useForm<BlockFormValues>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(blockSchema) as any,
     defaultValues: {
       name: "",
       description: "",
@@ -57,16 +37,19 @@ const CreateBlockDialog = ({ projectId, trigger }: CreateBlockDialogProps) => {
     },
   });
 
-  const onSubmit = async (data: CreateBlockFormValues) => {
+  const onSubmit = async (data: BlockFormValues) => {
     try {
       await createBlock.mutateAsync({
         ...data,
         projectId,
+        // New blocks start as the last phase
+        order: blocks?.length ?? 0,
       });
       setOpen(false);
       form.reset();
     } catch (error) {
-      console.error("Failed to create block:", error);
+      // The toast comes from the mutation hook
+      setApiFormErrors(form, error);
     }
   };
 
@@ -92,59 +75,13 @@ const CreateBlockDialog = ({ projectId, trigger }: CreateBlockDialogProps) => {
 
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="name"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Block Name</FormLabel>
-                  <FormControl>
-                    <Input placeholder="Phase 1 or Block A" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="description"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Description</FormLabel>
-                  <FormControl>
-                    <Input placeholder="Optional description" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <BlockFormFields form={form} />
 
-            <FormField
-              control={form.control}
-              name="status"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Status</FormLabel>
-                  <Select
-                    onValueChange={field.onChange}
-                    defaultValue={field.value}
-                  >
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select status" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      <SelectItem value="active">Active</SelectItem>
-                      <SelectItem value="inactive">Inactive</SelectItem>
-                      <SelectItem value="completed">Completed</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {form.formState.errors.root && (
+              <div className="bg-destructive/10 text-destructive p-4 rounded-md text-sm">
+                {form.formState.errors.root.message}
+              </div>
+            )}
 
             <div className="flex justify-end gap-2 pt-4">
               <Button
@@ -0,0 +1,218 @@
+import React, { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { useBlocksByProject, useDeleteBlock } from "@/hooks/useBlock";
+import {
+  useAllPlotsByProject,
+  useBulkPlotOperation,
+  useBulkUpdatePlots,
+} from "@/hooks/usePlot";
+import { Block } from "@/types/project.types";
+
+type PlotAction = "move" | "delete";
+
+interface DeleteBlockDialogProps {
+  block: Block | null;
+  onClose: () => void;
+}
+
+// Deletes a block once its plots have been moved to another block or deleted.
+// Plots that are reserved, booked or sold can only be moved
+const DeleteBlockDialog = ({ block, onClose }: DeleteBlockDialogProps) => {
+  const projectId = block?.projectId ?? "";
+  const [action, setAction] = useState<PlotAction>("move");
+  const [targetBlockId, setTargetBlockId] = useState("");
+
+  const { data: blocks } = useBlocksByProject(projectId);
+  const { data: plots, isLoading: isPlotsLoading } = useAllPlotsByProject(
+    projectId,
+    { blockId: block?._id },
+    !!block
+  );
+  const deleteBlock = useDeleteBlock();
+  const bulkUpdate = useBulkUpdatePlots();
+  const bulkDelete = useBulkPlotOperation();
+
+  const otherBlocks = blocks?.filter((b) => b._id !== block?._id) ?? [];
+  const plotCount = plots?.length ?? 0;
+  const committedPlots =
+    plots?.filter((plot) => plot.status !== "available") ?? [];
+  const canDeletePlots = committedPlots.length === 0;
+  const isPending =
+    deleteBlock.isPending || bulkUpdate.isPending || bulkDelete.isPending;
+
+  const handleClose = () => {
+    setAction("move");
+    setTargetBlockId("");
+    onClose();
+  };
+
+  const handleDelete = async () => {
+    if (!block || !plots) return;
+    try {
+      if (plotCount > 0 && action === "move") {
+        await bulkUpdate.mutateAsync({
+          projectId,
+          plots: plots.map((plot) => ({
+            _id: plot._id,
+            blockId: targetBlockId,
+          })),
+        });
+      } else if (plotCount > 0) {
+        const results = await bulkDelete.mutateAsync({
+          projectId,
+          plots,
+          operation: { type: "delete" },
+        });
+        // The block must stay while any of its plots are left
+        if (results.some((r) => !r.ok)) return;
+      }
+      await deleteBlock.mutateAsync({ blockId: block._id, projectId });
+      handleClose();
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  const isReady =
+    !isPlotsLoading &&
+    (plotCount === 0 || (action === "move" ? !!targetBlockId : canDeletePlots));
+
+  return (
+    <AlertDialog
+      open={!!block}
+      onOpenChange={(isOpen) => !isOpen && handleClose()}
+    >
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {block?.name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {isPlotsLoading
+              ? "Checking the plots in this block..."
+              : plotCount === 0
+              ? "This block has no plots. It will be removed permanently."
+              : `This block has ${plotCount} plots. Move them to another block or delete them before the block is removed.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isPlotsLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          plotCount > 0 && (
+            <div className="space-y-4">
+              <div className="max-h-32 overflow-y-auto border rounded-md p-2 flex flex-wrap gap-1.5">
+                {plots?.map((plot) => (
+                  <Badge
+                    key={plot._id}
+                    variant={
+                      plot.status === "available" ? "outline" : "secondary"
+                    }
+                  >
+                    {plot.plotNumber}
+                    {plot.status !== "available" && ` · ${plot.status}`}
+                  </Badge>
+                ))}
+              </div>
+
+              <RadioGroup
+                value={action}
+                onValueChange={(value) => setAction(value as PlotAction)}
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem
+                    value="move"
+                    id="block-plots-move"
+                    disabled={otherBlocks.length === 0}
+                  />
+                  <Label htmlFor="block-plots-move">
+                    Move plots to another block
+                  </Label>
+                </div>
+                {action === "move" && (
+                  <Select
+                    value={targetBlockId}
+                    onValueChange={setTargetBlockId}
+                    disabled={otherBlocks.length === 0}
+                  >
+                    <SelectTrigger className="ml-6 w-[calc(100%-1.5rem)]">
+                      <SelectValue
+                        placeholder={
+                          otherBlocks.length === 0
+                            ? "No other blocks in this project"
+                            : "Select target block"
+                        }
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {otherBlocks.map((b) => (
+                        <SelectItem key={b._id} value={b._id}>
+                          {b.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem
+                    value="delete"
+                    id="block-plots-delete"
+                    disabled={!canDeletePlots}
+                  />
+                  <Label htmlFor="block-plots-delete">
+                    Delete all {plotCount} plots
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              {!canDeletePlots && (
+                <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    {committedPlots.length} plots are reserved, booked or sold
+                    and cannot be deleted. Move them to another block instead.
+                  </span>
+                </div>
+              )}
+            </div>
+          )
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={!isReady || isPending}
+          >
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {plotCount > 0 && action === "move"
+              ? "Move Plots & Delete Block"
+              : "Delete Block"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default DeleteBlockDialog;
@@ -0,0 +1,88 @@
+import React, { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { useUpdateBlock } from "@/hooks/useBlock";
+import BlockFormFields from "@/components/blocks/BlockFormFields";
+import { blockSchema, BlockFormValues } from "@/schema/block.schema";
+import { Block } from "@/types/project.types";
+
+interface EditBlockDialogProps {
+  block: Block | null;
+  onClose: () => void;
+}
+
+const EditBlockDialog = ({ block, onClose }: EditBlockDialogProps) => {
+  const updateBlock = useUpdateBlock();
+
+  const form = useForm<BlockFormValues>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(blockSchema) as any,
+  });
+
+  useEffect(() => {
+    if (block) {
+      form.reset({
+        name: block.name,
+        description: block.description ?? "",
+        status: block.status,
+        plotDefaults: block.plotDefaults ?? {},
+      });
+    }
+  }, [block, form]);
+
+  const onSubmit = async (data: BlockFormValues) => {
+    if (!block) return;
+    try {
+      await updateBlock.mutateAsync({
+        blockId: block._id,
+        data: { ...data, plotDefaults: data.plotDefaults ?? {} },
+      });
+      onClose();
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  return (
+    <Dialog open={!!block} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Block</DialogTitle>
+          <DialogDescription>
+            Rename the block, change its status or set plot defaults.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <BlockFormFields form={form} />
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateBlock.isPending}>
+                {updateBlock.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Save Changes
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditBlockDialog;
@@ -0,0 +1,233 @@
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import {
+  useCancelBooking,
+  useCompleteBooking,
+  useConfirmBooking,
+} from "@/hooks/useBookings";
+import { usePermissions } from "@/hooks/usePermissions";
+import { Booking } from "@/types/booking.types";
+
+// Validation Schema
+const cancelBookingSchema = z.object({
+  cancelledReason: z
+    .string()
+    .trim()
+    .min(5, "Please give a reason of at least 5 characters"),
+});
+
+type CancelBookingFormValues = z.infer<typeof cancelBookingSchema>;
+
+const BookingActions = ({ booking }: { booking: Booking }) => {
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const confirmBooking = useConfirmBooking();
+  const cancelBooking = useCancelBooking();
+  const completeBooking = useCompleteBooking();
+  const { can } = usePermissions();
+
+  const form = useForm<CancelBookingFormValues>({
+    resolver: zodResolver(cancelBookingSchema),
+    defaultValues: { cancelledReason: "" },
+  });
+
+  const actionInput = {
+    bookingId: booking._id,
+    plotId: booking.plotId._id,
+    projectId: booking.projectId._id,
+  };
+
+  const handleConfirm = async () => {
+    try {
+      await confirmBooking.mutateAsync(actionInput);
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  const handleComplete = async () => {
+    try {
+      await completeBooking.mutateAsync(actionInput);
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  const onCancelSubmit = async (data: CancelBookingFormValues) => {
+    try {
+      await cancelBooking.mutateAsync({ ...actionInput, ...data });
+      setCancelOpen(false);
+      form.reset();
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  const { bookingStatus } = booking;
+  if (
+    !can("booking.manage") ||
+    bookingStatus === "cancelled" ||
+    bookingStatus === "completed"
+  ) {
+    return null;
+  }
+
+  return (
+    <div className="flex gap-2">
+      {bookingStatus === "pending" && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button disabled={confirmBooking.isPending}>
+              {confirmBooking.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Confirm Booking
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Confirm this booking?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Plot {booking.plotId.plotNumber} will be held for{" "}
+                {booking.customerDetails.name}.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Back</AlertDialogCancel>
+              <AlertDialogAction onClick={handleConfirm}>
+                Confirm
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+
+      {bookingStatus === "confirmed" && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button disabled={completeBooking.isPending}>
+              {completeBooking.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Mark Completed
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Mark booking as completed?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Use this once the sale of plot {booking.plotId.plotNumber} is
+                closed. The plot will be marked as sold.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Back</AlertDialogCancel>
+              <AlertDialogAction onClick={handleComplete}>
+                Mark Completed
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+
+      <Dialog
+        open={cancelOpen}
+        onOpenChange={(value) => {
+          setCancelOpen(value);
+          if (!value) form.reset();
+        }}
+      >
+        <DialogTrigger asChild>
+          <Button variant="outline" className="text-destructive">
+            Cancel Booking
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Booking</DialogTitle>
+            <DialogDescription>
+              Plot {booking.plotId.plotNumber} will become available again. The
+              reason is kept on the booking record.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit(onCancelSubmit)}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="cancelledReason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="e.g. Customer withdrew after site visit"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setCancelOpen(false)}
+                >
+                  Back
+                </Button>
+                <Button
+                  type="submit"
+                  variant="destructive"
+                  disabled={cancelBooking.isPending}
+                >
+                  {cancelBooking.isPending && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  Cancel Booking
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default BookingActions;
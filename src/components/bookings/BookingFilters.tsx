@@ -0,0 +1,164 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { CalendarIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useProjects } from "@/hooks/useProject";
+import { useBlocksByProject } from "@/hooks/useBlock";
+import { BookingFilters as BookingFiltersState } from "@/hooks/useBookingFilters";
+import { BookingStatus } from "@/types/booking.types";
+
+interface BookingFiltersProps {
+  filters: BookingFiltersState;
+  onChange: (patch: Partial<BookingFiltersState>) => void;
+  onClear: () => void;
+}
+
+const BookingFilters = ({
+  filters,
+  onChange,
+  onClear,
+}: BookingFiltersProps) => {
+  const { data: projectsData } = useProjects({ limit: 100 });
+  const { data: blocks, isLoading: isBlocksLoading } = useBlocksByProject(
+    filters.projectId
+  );
+
+  const range: DateRange | undefined = filters.from
+    ? {
+        from: parseISO(filters.from),
+        to: filters.to ? parseISO(filters.to) : undefined,
+      }
+    : undefined;
+
+  const rangeLabel = range?.from
+    ? range.to
+      ? `${format(range.from, "PP")} - ${format(range.to, "PP")}`
+      : format(range.from, "PP")
+    : "Booking date";
+
+  const hasFilters =
+    !!filters.status ||
+    !!filters.projectId ||
+    !!filters.blockId ||
+    !!filters.from;
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-4 bg-muted/50 p-4 rounded-lg border">
+      <div className="w-full lg:w-[220px]">
+        <Select
+          value={filters.projectId || "all"}
+          onValueChange={(val) =>
+            onChange({ projectId: val === "all" ? undefined : val })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Filter by project" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Projects</SelectItem>
+            {projectsData?.projects.map((project) => (
+              <SelectItem key={project._id} value={project._id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="w-full lg:w-[180px]">
+        <Select
+          value={filters.blockId || "all"}
+          onValueChange={(val) =>
+            onChange({ blockId: val === "all" ? undefined : val })
+          }
+          disabled={!filters.projectId || isBlocksLoading}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Filter by block" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Blocks</SelectItem>
+            {blocks?.map((block) => (
+              <SelectItem key={block._id} value={block._id}>
+                {block.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="w-full lg:w-[180px]">
+        <Select
+          value={filters.status || "all"}
+          onValueChange={(val) =>
+            onChange({
+              status: val === "all" ? undefined : (val as BookingStatus),
+            })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Filter by status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Status</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="confirmed">Confirmed</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
+            <SelectItem value="completed">Completed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn(
+              "w-full lg:w-[260px] justify-start font-normal",
+              !range && "text-muted-foreground"
+            )}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {rangeLabel}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            numberOfMonths={2}
+            defaultMonth={range?.from}
+            selected={range}
+            onSelect={(value) =>
+              onChange({
+                from: value?.from
+                  ? format(value.from, "yyyy-MM-dd")
+                  : undefined,
+                to: value?.to ? format(value.to, "yyyy-MM-dd") : undefined,
+              })
+            }
+          />
+        </PopoverContent>
+      </Popover>
+      {hasFilters && (
+        <Button variant="ghost" onClick={onClear}>
+          <X className="mr-2 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default BookingFilters;
@@ -0,0 +1,27 @@
+import React from "react";
+import { Badge, badgeVariants } from "@/components/ui/badge";
+import { VariantProps } from "class-variance-authority";
+import { BookingStatus } from "@/types/booking.types";
+
+type BadgeVariant = VariantProps<typeof badgeVariants>["variant"];
+
+const getBookingStatusVariant = (status: BookingStatus): BadgeVariant => {
+  switch (status) {
+    case "confirmed":
+      return "default";
+    case "pending":
+      return "secondary";
+    case "cancelled":
+      return "destructive";
+    default:
+      return "outline";
+  }
+};
+
+const BookingStatusBadge = ({ status }: { status: BookingStatus }) => (
+  <Badge variant={getBookingStatusVariant(status)} className="capitalize">
+    {status}
+  </Badge>
+);
+
+export default BookingStatusBadge;
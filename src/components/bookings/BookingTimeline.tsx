@@ -0,0 +1,103 @@
+import React from "react";
+import { format } from "date-fns";
+import { CheckCircle2, Circle, Clock, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Booking } from "@/types/booking.types";
+
+interface TimelineStep {
+  label: string;
+  date?: string;
+  detail?: string;
+  state: "done" | "current" | "upcoming" | "cancelled";
+}
+
+// Booking has no confirmedAt, so confirmation is shown as reached without a date
+const getTimelineSteps = (booking: Booking): TimelineStep[] => {
+  const { bookingStatus } = booking;
+  const steps: TimelineStep[] = [
+    {
+      label: "Booked",
+      date: booking.bookingDate,
+      detail: booking.notes,
+      state: "done",
+    },
+  ];
+
+  if (bookingStatus === "cancelled") {
+    steps.push({
+      label: "Cancelled",
+      date: booking.cancelledAt,
+      detail: booking.cancelledReason,
+      state: "cancelled",
+    });
+    return steps;
+  }
+
+  steps.push({
+    label: "Confirmed",
+    state: bookingStatus === "pending" ? "current" : "done",
+  });
+  steps.push({
+    label: "Completed",
+    date: booking.completedAt,
+    state:
+      bookingStatus === "completed"
+        ? "done"
+        : bookingStatus === "confirmed"
+        ? "current"
+        : "upcoming",
+  });
+  return steps;
+};
+
+const STEP_ICONS = {
+  done: <CheckCircle2 className="h-5 w-5 text-green-600" />,
+  current: <Clock className="h-5 w-5 text-primary" />,
+  upcoming: <Circle className="h-5 w-5 text-muted-foreground" />,
+  cancelled: <XCircle className="h-5 w-5 text-destructive" />,
+};
+
+const BookingTimeline = ({ booking }: { booking: Booking }) => {
+  const steps = getTimelineSteps(booking);
+
+  return (
+    <ol className="space-y-0">
+      {steps.map((step, index) => (
+        <li key={step.label} className="flex gap-3">
+          <div className="flex flex-col items-center">
+            {STEP_ICONS[step.state]}
+            {index < steps.length - 1 && (
+              <div
+                className={cn(
+                  "w-px flex-1 my-1",
+                  step.state === "done" ? "bg-green-600" : "bg-border"
+                )}
+              />
+            )}
+          </div>
+          <div className="pb-6">
+            <p
+              className={cn(
+                "font-medium",
+                step.state === "upcoming" && "text-muted-foreground"
+              )}
+            >
+              {step.label}
+            </p>
+            {step.date && (
+              <p className="text-sm text-muted-foreground">
+                {format(new Date(step.date), "PPp")}
+              </p>
+            )}
+            {step.state === "current" && (
+              <p className="text-sm text-muted-foreground">Awaiting action</p>
+            )}
+            {step.detail && <p className="text-sm mt-1">{step.detail}</p>}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default BookingTimeline;
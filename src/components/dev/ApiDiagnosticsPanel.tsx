@@ -0,0 +1,77 @@
+"use client";
+import React, { useState } from "react";
+import { AlertTriangle, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useApiDiagnosticsStore } from "@/stores/apiDiagnosticsStore";
+
+// Lists API responses that did not match their schemas. Development only
+const ApiDiagnosticsPanel = () => {
+  const diagnostics = useApiDiagnosticsStore((state) => state.diagnostics);
+  const clear = useApiDiagnosticsStore((state) => state.clear);
+  const [open, setOpen] = useState(false);
+
+  if (process.env.NODE_ENV !== "development" || diagnostics.length === 0) {
+    return null;
+  }
+
+  if (!open) {
+    return (
+      <Button
+        variant="destructive"
+        size="sm"
+        className="fixed bottom-4 left-4 z-50 shadow-lg"
+        onClick={() => setOpen(true)}
+      >
+        <AlertTriangle className="h-4 w-4 mr-2" />
+        API mismatches
+        <Badge variant="secondary" className="ml-2">
+          {diagnostics.length}
+        </Badge>
+      </Button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 w-[420px] max-w-[calc(100vw-2rem)] rounded-lg border bg-background shadow-xl">
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <AlertTriangle className="h-4 w-4 text-destructive" />
+          API response mismatches
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={clear}>
+            Clear
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={() => setOpen(false)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <ScrollArea className="max-h-[360px]">
+        <ul className="divide-y">
+          {diagnostics.map((diagnostic) => (
+            <li key={diagnostic.key} className="space-y-1 px-4 py-2 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono font-medium">
+                  {diagnostic.source}
+                </span>
+                <span className="text-muted-foreground">
+                  {diagnostic.count > 1 && `${diagnostic.count}x · `}
+                  {new Date(diagnostic.lastSeenAt).toLocaleTimeString()}
+                </span>
+              </div>
+              <div className="font-mono text-muted-foreground">
+                {diagnostic.path}
+              </div>
+              <div className="text-destructive">{diagnostic.message}</div>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default ApiDiagnosticsPanel;
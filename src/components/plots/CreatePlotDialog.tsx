@@ -1,7 +1,6 @@
 import React, { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
 import {
   Dialog,
   DialogContent,
@@ -30,66 +29,24 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, Plus, ArrowRight } from "lucide-react";
+import { cn } from "@/lib/utils";
 import { useCreatePlot, useBulkCreatePlots } from "@/hooks/usePlot";
 import { useBlocksByProject } from "@/hooks/useBlock";
-
-// Common Enums
-const AREA_UNITS = ["SQ_FT", "SQ_METER", "SQ_YARDS", "ACRES"] as const;
-const FACING_OPTS = [
-  "NORTH",
-  "SOUTH",
-  "EAST",
-  "WEST",
-  "NORTH_EAST",
-  "NORTH_WEST",
-  "SOUTH_EAST",
-  "SOUTH_WEST",
-] as const;
-const PLOT_TYPES = ["CORNER", "ROAD", "REGULAR"] as const;
-const DIMENSION_UNITS = ["FEET", "METER"] as const;
-
-// Validation Schemas
-const dimensionSchema = z.object({
-  length: z.coerce.number().positive(),
-  width: z.coerce.number().positive(),
-  unit: z.enum(DIMENSION_UNITS),
-});
-
-const createPlotSchema = z.object({
-  blockId: z.string().min(1, "Block is required"),
-  plotNumber: z.string().min(1, "Plot number is required"),
-  area: z.coerce.number().positive("Area must be positive"),
-  areaUnit: z.enum(AREA_UNITS),
-  price: z.coerce.number().positive("Price must be positive"),
-  pricePerUnit: z.coerce.number().positive("Price per unit must be positive"),
-  facing: z.enum(FACING_OPTS),
-  plotType: z.enum(PLOT_TYPES).default("REGULAR"),
-  frontRoadWidth: z.coerce.number().positive().optional(),
-  dimensions: dimensionSchema.optional(),
-});
-
-const bulkCreatePlotSchema = z
-  .object({
-    blockId: z.string().min(1, "Block is required"),
-    prefix: z.string().optional(),
-    suffix: z.string().optional(),
-    startNumber: z.coerce.number().int().min(1, "Start number is required"),
-    endNumber: z.coerce.number().int().min(1, "End number is required"),
-    digits: z.coerce.number().int().min(1).max(10).optional().default(1),
-    area: z.coerce.number().positive("Area must be positive"),
-    areaUnit: z.enum(AREA_UNITS),
-    pricePerUnit: z.coerce.number().positive("Price per unit must be positive"),
-    facing: z.enum(FACING_OPTS).default("NORTH"),
-    plotType: z.enum(PLOT_TYPES).default("REGULAR"),
-    dimensions: dimensionSchema.optional(),
-  })
-  .refine((data) => data.endNumber >= data.startNumber, {
-    message: "End number must be greater than or equal to start number",
-    path: ["endNumber"],
-  });
-
-type CreatePlotFormValues = z.infer<typeof createPlotSchema>;
-type BulkCreatePlotFormValues = z.infer<typeof bulkCreatePlotSchema>;
+import { useProject } from "@/hooks/useProject";
+import { calculatePlotPrice } from "@/lib/pricing";
+import { setApiFormErrors } from "@/lib/apiErrors";
+import PlotSheetImport from "@/components/plots/PlotSheetImport";
+import PriceBreakdown from "@/components/plots/PriceBreakdown";
+import PlotFormFields from "@/components/plots/PlotFormFields";
+import {
+  AREA_UNITS,
+  bulkCreatePlotSchema,
+  BulkCreatePlotFormValues,
+  createPlotSchema,
+  CreatePlotFormValues,
+  FACING_OPTS,
+  PLOT_TYPES,
+} from "@/schema/plot.schema";
 
 interface CreatePlotDialogProps {
   projectId: string;
@@ -104,6 +61,11 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
   const bulkCreatePlots = useBulkCreatePlots();
   const { data: blocks, isLoading: isBlocksLoading } =
     useBlocksByProject(projectId);
+  const { data: projectData } = useProject(projectId);
+  const pricingRules = React.useMemo(
+    () => projectData?.project.pricingRules ?? [],
+    [projectData]
+  );
 
   const form = useForm<CreatePlotFormValues>({
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -157,7 +119,8 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
       setOpen(false);
       form.reset();
     } catch (error) {
-      console.error("Failed to create plot:", error);
+      // The toast comes from the mutation hook
+      setApiFormErrors(form, error);
     }
   };
 
@@ -175,7 +138,11 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
         ...rest
       } = data;
 
-      const totalPrice = area * pricePerUnit;
+      // Every plot in the range shares the attributes the rules look at
+      const { price: totalPrice } = calculatePlotPrice(
+        { ...rest, area, pricePerUnit },
+        pricingRules
+      );
 
       for (let i = startNumber; i <= endNumber; i++) {
         const plotNumStr = i.toString().padStart(digits || 1, "0");
@@ -197,21 +164,39 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
       setOpen(false);
       bulkForm.reset();
     } catch (error) {
-      console.error("Failed to bulk create plots:", error);
+      // Duplicate plot numbers are reported against the number pattern
+      setApiFormErrors(bulkForm, error, { fieldMap: { plotNumber: "prefix" } });
     }
   };
 
   const isSubmitting = createPlot.isPending || bulkCreatePlots.isPending;
 
-  // Watch area and pricePerUnit to auto-calculate total price in single form
-  const singleArea = form.watch("area");
-  const singlePricePerUnit = form.watch("pricePerUnit");
+  // Same block defaults as the single plot form, applied to the range
+  const handleBulkBlockDefaults = (blockId: string) => {
+    const defaults = blocks?.find((b) => b._id === blockId)?.plotDefaults;
+    if (defaults?.areaUnit) bulkForm.setValue("areaUnit", defaults.areaUnit);
+    if (defaults?.pricePerUnit)
+      bulkForm.setValue("pricePerUnit", defaults.pricePerUnit);
+    if (defaults?.facing) bulkForm.setValue("facing", defaults.facing);
+    if (defaults?.plotType) bulkForm.setValue("plotType", defaults.plotType);
+  };
 
-  React.useEffect(() => {
-    if (singleArea && singlePricePerUnit) {
-      form.setValue("price", singleArea * singlePricePerUnit);
-    }
-  }, [singleArea, singlePricePerUnit, form]);
+  const bulkArea = Number(bulkForm.watch("area"));
+  const bulkPricePerUnit = Number(bulkForm.watch("pricePerUnit"));
+  const bulkRoadWidth = bulkForm.watch("frontRoadWidth");
+  const bulkBreakdown =
+    bulkArea && bulkPricePerUnit
+      ? calculatePlotPrice(
+          {
+            area: bulkArea,
+            pricePerUnit: bulkPricePerUnit,
+            plotType: bulkForm.watch("plotType"),
+            facing: bulkForm.watch("facing"),
+            frontRoadWidth: bulkRoadWidth ? Number(bulkRoadWidth) : undefined,
+          },
+          pricingRules
+        )
+      : undefined;
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -223,18 +208,25 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
           </Button>
         )}
       </DialogTrigger>
-      <DialogContent className="max-w-3xl h-[85vh] overflow-y-auto">
+      <DialogContent
+        className={cn(
+          "max-w-3xl h-[85vh] overflow-y-auto",
+          activeTab === "sheet" && "sm:max-w-6xl"
+        )}
+      >
         <DialogHeader>
           <DialogTitle>Add New Plot(s)</DialogTitle>
           <DialogDescription>
-            Create a single plot or generate multiple plots at once.
+            Create a single plot, generate a numbered range, or import an
+            inventory sheet.
           </DialogDescription>
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="single">Single Plot</TabsTrigger>
             <TabsTrigger value="bulk">Bulk Creation</TabsTrigger>
+            <TabsTrigger value="sheet">Import Sheet</TabsTrigger>
           </TabsList>
 
           <TabsContent value="single" className="mt-4">
@@ -250,209 +242,19 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
                   </div>
                 ) : null}
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="blockId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Block</FormLabel>
-                        <Select
-                          onValueChange={field.onChange}
-                          defaultValue={field.value}
-                          disabled={isBlocksLoading || !blocks?.length}
-                        >
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select Block" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {blocks?.map((block) => (
-                              <SelectItem key={block._id} value={block._id}>
-                                {block.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="plotNumber"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Plot Number</FormLabel>
-                        <FormControl>
-                          <Input placeholder="A-101" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="area"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Area</FormLabel>
-                        <FormControl>
-                          <Input type="number" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="areaUnit"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Unit</FormLabel>
-                        <Select
-                          onValueChange={field.onChange}
-                          defaultValue={field.value}
-                        >
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Unit" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {AREA_UNITS.map((unit) => (
-                              <SelectItem key={unit} value={unit}>
-                                {unit.replace("SQ_", "Sq. ")}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="plotType"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Plot Type</FormLabel>
-                        <Select
-                          onValueChange={field.onChange}
-                          defaultValue={field.value}
-                        >
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select type" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {PLOT_TYPES.map((type) => (
-                              <SelectItem key={type} value={type}>
-                                {type}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="dimensions.length"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Length</FormLabel>
-                        <FormControl>
-                          <Input type="number" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="dimensions.width"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Width</FormLabel>
-                        <FormControl>
-                          <Input type="number" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="pricePerUnit"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Price / Unit</FormLabel>
-                        <FormControl>
-                          <Input type="number" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="price"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Total Price</FormLabel>
-                        <FormControl>
-                          <Input type="number" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                <PlotFormFields
+                  form={form}
+                  blocks={blocks}
+                  isBlocksLoading={isBlocksLoading}
+                  pricingRules={pricingRules}
+                  applyBlockDefaults
+                />
 
-                  <FormField
-                    control={form.control}
-                    name="facing"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Facing</FormLabel>
-                        <Select
-                          onValueChange={field.onChange}
-                          defaultValue={field.value}
-                        >
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Facing" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {FACING_OPTS.map((f) => (
-                              <SelectItem key={f} value={f}>
-                                {f.replace("_", " ")}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
+                {form.formState.errors.root && (
+                  <div className="bg-destructive/10 text-destructive p-4 rounded-md text-sm">
+                    {form.formState.errors.root.message}
+                  </div>
+                )}
 
                 <div className="flex justify-end gap-2 pt-4">
                   <Button
@@ -486,8 +288,11 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
                     <FormItem>
                       <FormLabel>Block</FormLabel>
                       <Select
-                        onValueChange={field.onChange}
-                        defaultValue={field.value}
+                        onValueChange={(val) => {
+                          field.onChange(val);
+                          handleBulkBlockDefaults(val);
+                        }}
+                        value={field.value}
                         disabled={isBlocksLoading || !blocks?.length}
                       >
                         <FormControl>
@@ -616,7 +421,7 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
                         <FormLabel>Unit</FormLabel>
                         <Select
                           onValueChange={field.onChange}
-                          defaultValue={field.value}
+                          value={field.value}
                         >
                           <FormControl>
                             <SelectTrigger>
@@ -651,7 +456,7 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
                   />
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <FormField
                     control={bulkForm.control}
                     name="dimensions.length"
@@ -678,6 +483,26 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={bulkForm.control}
+                    name="frontRoadWidth"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Front Road Width (ft)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) =>
+                              field.onChange(e.target.value || undefined)
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -689,7 +514,7 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
                         <FormLabel>Facing</FormLabel>
                         <Select
                           onValueChange={field.onChange}
-                          defaultValue={field.value}
+                          value={field.value}
                         >
                           <FormControl>
                             <SelectTrigger>
@@ -717,7 +542,7 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
                         <FormLabel>Plot Type</FormLabel>
                         <Select
                           onValueChange={field.onChange}
-                          defaultValue={field.value}
+                          value={field.value}
                         >
                           <FormControl>
                             <SelectTrigger>
@@ -738,6 +563,19 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
                   />
                 </div>
 
+                {pricingRules.length > 0 && bulkBreakdown && (
+                  <PriceBreakdown
+                    breakdown={bulkBreakdown}
+                    label="Price breakdown (per plot)"
+                  />
+                )}
+
+                {bulkForm.formState.errors.root && (
+                  <div className="bg-destructive/10 text-destructive p-4 rounded-md text-sm">
+                    {bulkForm.formState.errors.root.message}
+                  </div>
+                )}
+
                 <div className="flex justify-end gap-2 pt-4">
                   <Button
                     type="button"
@@ -763,6 +601,13 @@ const CreatePlotDialog = ({ projectId, trigger }: CreatePlotDialogProps) => {
               </form>
             </Form>
           </TabsContent>
+
+          <TabsContent value="sheet" className="mt-4">
+            <PlotSheetImport
+              projectId={projectId}
+              onImported={() => setOpen(false)}
+            />
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,530 @@
+import React, { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DrawingUnit,
+  DxfDrawing,
+  METERS_PER_DRAWING_UNIT,
+  pairDxfPlots,
+  parseDxf,
+} from "@/lib/dxfImport";
+import {
+  applyAffine,
+  convertSqMeters,
+  getGeoreferenceTransform,
+  Point,
+  ringToCanvasPosition,
+  toPolygon,
+} from "@/lib/geometry";
+import { calculatePlotPrice } from "@/lib/pricing";
+import { useAllPlotsByProject, useBulkCreatePlots } from "@/hooks/usePlot";
+import { useBlocksByProject } from "@/hooks/useBlock";
+import {
+  CreatePlotInput,
+  Facing,
+  PlotAreaUnit,
+  Project,
+} from "@/types/project.types";
+import { AREA_UNITS, FACING_OPTS } from "@/schema/plot.schema";
+
+const DRAWING_UNITS: DrawingUnit[] = [
+  "FEET",
+  "METER",
+  "INCH",
+  "MILLIMETER",
+  "CENTIMETER",
+];
+// Width of the imported layout on the plot canvas, in canvas units
+const CANVAS_WIDTH = 1500;
+
+interface DxfImportDialogProps {
+  project: Project;
+  trigger?: React.ReactNode;
+}
+
+const DxfImportDialog = ({ project, trigger }: DxfImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [drawing, setDrawing] = useState<DxfDrawing | null>(null);
+  const [polylineLayer, setPolylineLayer] = useState("");
+  const [labelLayer, setLabelLayer] = useState("");
+  const [drawingUnit, setDrawingUnit] = useState<DrawingUnit>("FEET");
+  const [blockId, setBlockId] = useState("");
+  const [areaUnit, setAreaUnit] = useState<PlotAreaUnit>("SQ_FT");
+  const [pricePerUnit, setPricePerUnit] = useState(0);
+  const [facing, setFacing] = useState<Facing>("NORTH");
+
+  const { data: plotsData } = useAllPlotsByProject(project._id, {}, open);
+  const { data: blocks } = useBlocksByProject(project._id);
+  const bulkCreatePlots = useBulkCreatePlots();
+
+  const pairing = useMemo(
+    () =>
+      drawing && polylineLayer && labelLayer
+        ? pairDxfPlots(drawing, polylineLayer, labelLayer)
+        : null,
+    [drawing, polylineLayer, labelLayer]
+  );
+
+  // Outlines are stored as [lng, lat] after a canvas fit and in canvas units,
+  // recorded as such, otherwise
+  const canvasToGeo =
+    project.georeference?.source === "canvas"
+      ? getGeoreferenceTransform(project.georeference)
+      : null;
+
+  const { plots, duplicates } = useMemo(() => {
+    if (!pairing || pairing.pairs.length === 0) {
+      return { plots: [], duplicates: [] as string[] };
+    }
+    const existing = new Set(
+      (plotsData ?? []).map((p) => p.plotNumber.trim().toUpperCase())
+    );
+    const allPoints = pairing.pairs.flatMap((p) => p.ring);
+    const minX = Math.min(...allPoints.map((p) => p[0]));
+    const maxX = Math.max(...allPoints.map((p) => p[0]));
+    const minY = Math.min(...allPoints.map((p) => p[1]));
+    const maxY = Math.max(...allPoints.map((p) => p[1]));
+    const scale = CANVAS_WIDTH / Math.max(maxX - minX, maxY - minY, 1);
+    // CAD y grows upwards while the canvas grows downwards
+    const toCanvas = ([x, y]: Point): Point => [
+      Math.round((x - minX) * scale * 100) / 100,
+      Math.round((maxY - y) * scale * 100) / 100,
+    ];
+    const metersPerUnit = METERS_PER_DRAWING_UNIT[drawingUnit];
+
+    const duplicates: string[] = [];
+    const plots: Omit<CreatePlotInput, "projectId">[] = [];
+    pairing.pairs.forEach(({ plotNumber, ring, area: drawingArea }) => {
+      if (existing.has(plotNumber.trim().toUpperCase())) {
+        duplicates.push(plotNumber);
+        return;
+      }
+      const canvasRing = ring.map(toCanvas);
+      const area = convertSqMeters(
+        drawingArea * metersPerUnit * metersPerUnit,
+        areaUnit
+      );
+      // Opposite sides of a four-corner plot, averaged, in drawing units
+      const sides = ring.map(([x1, y1], i) => {
+        const [x2, y2] = ring[(i + 1) % ring.length];
+        return Math.hypot(x2 - x1, y2 - y1);
+      });
+      const sideA = (sides[0] + sides[2]) / 2;
+      const sideB = (sides[1] + sides[3]) / 2;
+      const dimensionUnit = drawingUnit === "FEET" ? "FEET" : "METER";
+      const toDimension = (value: number) =>
+        Math.round(
+          (dimensionUnit === "FEET" ? value : value * metersPerUnit) * 100
+        ) / 100;
+
+      plots.push({
+        blockId,
+        plotNumber,
+        area,
+        areaUnit,
+        pricePerUnit,
+        price: calculatePlotPrice(
+          { area, pricePerUnit, facing, plotType: "REGULAR" },
+          project.pricingRules
+        ).price,
+        facing,
+        plotType: "REGULAR",
+        canvasPosition: ringToCanvasPosition(canvasRing),
+        ...(ring.length === 4 && {
+          dimensions: {
+            length: toDimension(Math.max(sideA, sideB)),
+            width: toDimension(Math.min(sideA, sideB)),
+            unit: dimensionUnit,
+          },
+        }),
+        boundaries: toPolygon(
+          canvasToGeo
+            ? canvasRing.map((p) => applyAffine(canvasToGeo, p))
+            : canvasRing
+        ),
+        boundarySpace: canvasToGeo ? "lngLat" : "canvas",
+      });
+    });
+    return { plots, duplicates };
+  }, [
+    pairing,
+    plotsData,
+    drawingUnit,
+    areaUnit,
+    blockId,
+    pricePerUnit,
+    facing,
+    canvasToGeo,
+    project.pricingRules,
+  ]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = parseDxf(await file.text());
+      setDrawing(parsed);
+      setFileName(file.name);
+      if (parsed.units) setDrawingUnit(parsed.units);
+      // Preselect the layers holding the most polylines and labels
+      const busiest = (items: { layer: string }[]) => {
+        const counts = new Map<string, number>();
+        items.forEach((i) =>
+          counts.set(i.layer, (counts.get(i.layer) ?? 0) + 1)
+        );
+        return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+      };
+      setPolylineLayer(busiest(parsed.polylines));
+      setLabelLayer(busiest(parsed.labels));
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to read DXF file"
+      );
+      setDrawing(null);
+      setFileName(null);
+    }
+  };
+
+  const reset = () => {
+    setDrawing(null);
+    setFileName(null);
+    setPolylineLayer("");
+    setLabelLayer("");
+  };
+
+  const handleImport = async () => {
+    if (plots.length === 0 || !blockId) return;
+    try {
+      await bulkCreatePlots.mutateAsync({ projectId: project._id, plots });
+      setOpen(false);
+      reset();
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  // New plots are priced from this rate, so a missing one would list them free
+  const needsRate = plots.length > 0 && !(pricePerUnit > 0);
+
+  // Repeated plot numbers are reported once, not once per outline
+  const ambiguityMessages = Array.from(
+    new Set(
+      (pairing?.ambiguous ?? []).map(({ texts, reason }) =>
+        reason === "enclosing"
+          ? `One outline is drawn around other outlines${
+              texts.length ? ` (labels ${texts.join(", ")})` : ""
+            }`
+          : reason === "duplicate"
+          ? `Plot number ${texts[0]} is used by more than one outline`
+          : `One outline contains several labels: ${texts.join(", ")}`
+      )
+    )
+  );
+
+  const issueCount = pairing
+    ? pairing.unlabeled.length +
+      pairing.ambiguous.length +
+      pairing.orphanLabels.length +
+      duplicates.length
+    : 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button size="sm" variant="outline">
+            <FileUp size={16} className="mr-2" />
+            Import DXF
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Layout from DXF</DialogTitle>
+          <DialogDescription>
+            Create plots from the closed polylines and plot-number labels in an
+            AutoCAD drawing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>DXF Drawing</Label>
+            <div className="flex items-center gap-4">
+              <Input
+                type="file"
+                accept=".dxf"
+                onChange={handleFileChange}
+                className="cursor-pointer"
+              />
+              {fileName && drawing && (
+                <span className="text-sm text-muted-foreground whitespace-nowrap">
+                  {drawing.polylines.length} polylines, {drawing.labels.length}{" "}
+                  labels
+                </span>
+              )}
+            </div>
+          </div>
+
+          {drawing && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Plot outline layer</Label>
+                  <Select
+                    value={polylineLayer}
+                    onValueChange={setPolylineLayer}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select layer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {drawing.layers.map((layer) => (
+                        <SelectItem key={layer} value={layer}>
+                          {layer}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Plot number layer</Label>
+                  <Select value={labelLayer} onValueChange={setLabelLayer}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select layer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {drawing.layers.map((layer) => (
+                        <SelectItem key={layer} value={layer}>
+                          {layer}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Drawing units</Label>
+                  <Select
+                    value={drawingUnit}
+                    onValueChange={(v) => setDrawingUnit(v as DrawingUnit)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DRAWING_UNITS.map((unit) => (
+                        <SelectItem key={unit} value={unit}>
+                          {unit.toLowerCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label>Block</Label>
+                  <Select value={blockId} onValueChange={setBlockId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select Block" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {blocks?.map((block) => (
+                        <SelectItem key={block._id} value={block._id}>
+                          {block.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Area Unit</Label>
+                  <Select
+                    value={areaUnit}
+                    onValueChange={(v) => setAreaUnit(v as PlotAreaUnit)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AREA_UNITS.map((unit) => (
+                        <SelectItem key={unit} value={unit}>
+                          {unit.replace("SQ_", "Sq. ")}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Price / Unit</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={pricePerUnit}
+                    onChange={(e) => setPricePerUnit(Number(e.target.value))}
+                  />
+                  {needsRate && (
+                    <p className="text-xs text-destructive">
+                      Enter a rate above 0
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label>Facing</Label>
+                  <Select
+                    value={facing}
+                    onValueChange={(v) => setFacing(v as Facing)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FACING_OPTS.map((f) => (
+                        <SelectItem key={f} value={f}>
+                          {f.replace("_", " ")}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {pairing && issueCount > 0 && (
+                <div className="bg-destructive/10 text-destructive p-4 rounded-md text-sm space-y-1">
+                  {pairing.unlabeled.length > 0 && (
+                    <p>
+                      {pairing.unlabeled.length} outlines have no plot number
+                      inside them.
+                    </p>
+                  )}
+                  {ambiguityMessages.map((message) => (
+                    <p key={message}>{message}</p>
+                  ))}
+                  {pairing.orphanLabels.length > 0 && (
+                    <p>
+                      Labels outside any outline:{" "}
+                      {pairing.orphanLabels.map((l) => l.text).join(", ")}
+                    </p>
+                  )}
+                  {duplicates.length > 0 && (
+                    <p>Already in this project: {duplicates.join(", ")}</p>
+                  )}
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Plot No.</TableHead>
+                    <TableHead>Area</TableHead>
+                    <TableHead>Dimensions</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Outline</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plots.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">
+                        No labelled outlines found on the selected layers.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    plots.map((plot) => (
+                      <TableRow key={plot.plotNumber}>
+                        <TableCell className="font-medium">
+                          {plot.plotNumber}
+                        </TableCell>
+                        <TableCell>
+                          {plot.area} {plot.areaUnit.replace("SQ_", "Sq. ")}
+                        </TableCell>
+                        <TableCell>
+                          {plot.dimensions
+                            ? `${plot.dimensions.length} x ${plot.dimensions.width} ${plot.dimensions.unit}`
+                            : "-"}
+                        </TableCell>
+                        <TableCell>₹{plot.price.toLocaleString()}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {plot.boundaries
+                              ? `${
+                                  plot.boundaries.coordinates[0].length - 1
+                                } corners`
+                              : "canvas only"}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={
+                bulkCreatePlots.isPending ||
+                !blockId ||
+                needsRate ||
+                // Duplicates are only caught once every existing plot has loaded
+                !plotsData ||
+                plots.length === 0
+              }
+            >
+              {bulkCreatePlots.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Create {plots.length} Plots
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DxfImportDialog;
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Form } from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { useUpdatePlot } from "@/hooks/usePlot";
+import { useBlocksByProject } from "@/hooks/useBlock";
+import { useProject } from "@/hooks/useProject";
+import PlotFormFields from "@/components/plots/PlotFormFields";
+import { usePermissions } from "@/hooks/usePermissions";
+import { createPlotSchema, CreatePlotFormValues } from "@/schema/plot.schema";
+import { Plot } from "@/types/project.types";
+
+const toFormValues = (plot: Plot): CreatePlotFormValues => ({
+  blockId: plot.blockId,
+  plotNumber: plot.plotNumber,
+  area: plot.area,
+  areaUnit: plot.areaUnit,
+  price: plot.price,
+  pricePerUnit: plot.pricePerUnit,
+  facing: plot.facing,
+  plotType: plot.plotType,
+  frontRoadWidth: plot.frontRoadWidth,
+  dimensions: plot.dimensions ?? { length: 0, width: 0, unit: "FEET" },
+});
+
+interface EditPlotDialogProps {
+  plot: Plot | null;
+  onClose: () => void;
+}
+
+const EditPlotDialog = ({ plot, onClose }: EditPlotDialogProps) => {
+  const [pendingValues, setPendingValues] =
+    useState<CreatePlotFormValues | null>(null);
+  const projectId = plot?.projectId ?? "";
+
+  const updatePlot = useUpdatePlot();
+  const { can } = usePermissions();
+  const { data: blocks, isLoading: isBlocksLoading } =
+    useBlocksByProject(projectId);
+  const { data: projectData } = useProject(projectId);
+  const pricingRules = React.useMemo(
+    () => projectData?.project.pricingRules ?? [],
+    [projectData]
+  );
+
+  const form = useForm<CreatePlotFormValues>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(createPlotSchema) as any,
+  });
+
+  useEffect(() => {
+    if (plot) {
+      form.reset(toFormValues(plot));
+    }
+  }, [plot, form]);
+
+  // Booked and sold plots are tied to a customer, so edits need a second look
+  const isLocked = plot?.status === "booked" || plot?.status === "sold";
+
+  const savePlot = async (data: CreatePlotFormValues) => {
+    if (!plot) return;
+    try {
+      await updatePlot.mutateAsync({
+        plotId: plot._id,
+        data,
+      });
+      setPendingValues(null);
+      onClose();
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  const onSubmit = (data: CreatePlotFormValues) => {
+    if (isLocked) {
+      setPendingValues(data);
+      return;
+    }
+    savePlot(data);
+  };
+
+  return (
+    <>
+      <Dialog open={!!plot} onOpenChange={(isOpen) => !isOpen && onClose()}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Plot {plot?.plotNumber}</DialogTitle>
+            <DialogDescription>
+              Correct the plot details or move it to another block. Bookings
+              stay linked to the plot.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLocked && (
+            <div className="flex gap-3 bg-yellow-500/10 text-yellow-700 dark:text-yellow-400 p-4 rounded-md text-sm">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <p>
+                This plot is <span className="font-medium">{plot?.status}</span>
+                . Changes will show on the customer&apos;s booking, and you will
+                be asked to confirm before they are saved.
+              </p>
+            </div>
+          )}
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <PlotFormFields
+                form={form}
+                blocks={blocks}
+                isBlocksLoading={isBlocksLoading}
+                pricingRules={pricingRules}
+                priceLocked={!can("pricing.edit")}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={updatePlot.isPending || !form.formState.isDirty}
+                >
+                  {updatePlot.isPending && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  Save Changes
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={!!pendingValues}
+        onOpenChange={(isOpen) => !isOpen && setPendingValues(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Edit a {plot?.status} plot?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Plot {plot?.plotNumber} already has a customer. Make sure the
+              buyer has agreed to any change in area, dimensions or price.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingValues && savePlot(pendingValues)}
+            >
+              Save Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default EditPlotDialog;
@@ -0,0 +1,129 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { useFetchAllPlots } from "@/hooks/usePlot";
+import { useBlocksByProject } from "@/hooks/useBlock";
+import {
+  downloadSpreadsheet,
+  SheetColumn,
+  SheetFormat,
+} from "@/lib/spreadsheet";
+import {
+  Block,
+  GetPlotsByProjectParams,
+  Plot,
+  Project,
+} from "@/types/project.types";
+
+const COLUMNS: SheetColumn[] = [
+  { header: "Plot No." },
+  { header: "Block" },
+  { header: "Type" },
+  { header: "Area", width: 10 },
+  { header: "Area Unit", width: 10 },
+  { header: "Dimensions", width: 18 },
+  { header: "Facing" },
+  { header: "Road Width", width: 12 },
+  { header: "Price / Unit", currency: true },
+  { header: "Price", currency: true, width: 18 },
+  { header: "Status", width: 12 },
+];
+
+// Shared with the bulk actions bar, which exports a hand-picked selection
+export const downloadPlotsSheet = (
+  project: Project,
+  plots: Plot[],
+  blocks: Block[],
+  sheetFormat: SheetFormat
+) => {
+  const blockNames = new Map(blocks.map((b) => [b._id, b.name]));
+  return downloadSpreadsheet({
+    fileName: `${project.name} plots ${format(new Date(), "yyyy-MM-dd")}`,
+    format: sheetFormat,
+    columns: COLUMNS,
+    rows: plots.map((plot) => [
+      plot.plotNumber,
+      blockNames.get(plot.blockId) ?? "-",
+      plot.plotType,
+      plot.area,
+      plot.areaUnit.replace("SQ_", "Sq. "),
+      plot.dimensions
+        ? `${plot.dimensions.length} x ${plot.dimensions.width} ${plot.dimensions.unit}`
+        : "-",
+      plot.facing.replace("_", " "),
+      plot.frontRoadWidth ?? "-",
+      plot.pricePerUnit,
+      plot.price,
+      plot.status,
+    ]),
+  });
+};
+
+interface ExportPlotsButtonProps {
+  project: Project;
+  filters: GetPlotsByProjectParams;
+}
+
+const ExportPlotsButton = ({ project, filters }: ExportPlotsButtonProps) => {
+  const exportPlots = useFetchAllPlots("Failed to export plots");
+  const { data: blocks } = useBlocksByProject(project._id);
+
+  const handleExport = async (sheetFormat: SheetFormat) => {
+    // Export every page of the current filter, not just the visible one
+    const { status, blockId, minPrice, maxPrice } = filters;
+    let plots: Plot[];
+    try {
+      plots = await exportPlots.mutateAsync({
+        projectId: project._id,
+        params: { status, blockId, minPrice, maxPrice },
+      });
+    } catch {
+      // Error is handled by the mutation hook
+      return;
+    }
+    if (plots.length === 0) {
+      toast.error("No plots match the current filters");
+      return;
+    }
+
+    try {
+      await downloadPlotsSheet(project, plots, blocks ?? [], sheetFormat);
+      toast.success(`Exported ${plots.length} plots`);
+    } catch {
+      toast.error("Failed to create the export file");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" disabled={exportPlots.isPending}>
+          {exportPlots.isPending ? (
+            <Loader2 size={16} className="mr-2 animate-spin" />
+          ) : (
+            <Download size={16} className="mr-2" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport("csv")}>
+          Export as CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+          Export as Excel (.xlsx)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportPlotsButton;
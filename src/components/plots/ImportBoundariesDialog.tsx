@@ -0,0 +1,564 @@
+import React, { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { parseGeoFile, ImportedFeature } from "@/lib/geoImport";
+import { convertSqMeters } from "@/lib/geometry";
+import { calculatePlotPrice } from "@/lib/pricing";
+import {
+  useAllPlotsByProject,
+  useBulkCreatePlots,
+  useBulkUpdatePlots,
+} from "@/hooks/usePlot";
+import { useBlocksByProject } from "@/hooks/useBlock";
+import { useUpdateProject } from "@/hooks/useProject";
+import {
+  Boundaries,
+  Facing,
+  Plot,
+  PlotAreaUnit,
+  Project,
+} from "@/types/project.types";
+import { AREA_UNITS, FACING_OPTS } from "@/schema/plot.schema";
+
+// Property names survey tools commonly use for the plot number
+const LIKELY_KEYS = ["plotNumber", "plot_no", "plot_number", "plot", "name"];
+
+const normalize = (value: string) => value.trim().toUpperCase();
+
+interface MatchedRow {
+  feature: ImportedFeature;
+  plot: Plot;
+  boundaries: Boundaries;
+}
+
+interface NewRow {
+  feature: ImportedFeature;
+  plotNumber: string;
+  boundaries: Boundaries;
+}
+
+interface InvalidRow {
+  feature: ImportedFeature;
+  reason: string;
+}
+
+interface ImportBoundariesDialogProps {
+  project: Project;
+  trigger?: React.ReactNode;
+}
+
+const ImportBoundariesDialog = ({
+  project,
+  trigger,
+}: ImportBoundariesDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [features, setFeatures] = useState<ImportedFeature[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+  const [matchKey, setMatchKey] = useState<string>("");
+  const [createUnmatched, setCreateUnmatched] = useState(true);
+  const [blockId, setBlockId] = useState<string>("");
+  const [areaUnit, setAreaUnit] = useState<PlotAreaUnit>("SQ_FT");
+  const [pricePerUnit, setPricePerUnit] = useState(0);
+  const [facing, setFacing] = useState<Facing>("NORTH");
+
+  const { data: plotsData } = useAllPlotsByProject(project._id, {}, open);
+  const { data: blocks } = useBlocksByProject(project._id);
+  const bulkCreatePlots = useBulkCreatePlots();
+  const bulkUpdatePlots = useBulkUpdatePlots();
+  const updateProject = useUpdateProject();
+
+  const propertyKeys = useMemo(
+    () =>
+      Array.from(new Set(features.flatMap((f) => Object.keys(f.properties)))),
+    [features]
+  );
+
+  const { matched, created, invalid } = useMemo(() => {
+    const plotsByNumber = new Map(
+      (plotsData ?? []).map((plot) => [normalize(plot.plotNumber), plot])
+    );
+    const seen = new Set<string>();
+    const result = {
+      matched: [] as MatchedRow[],
+      created: [] as NewRow[],
+      invalid: [] as InvalidRow[],
+    };
+
+    features.forEach((feature) => {
+      if (feature.error || !feature.boundaries) {
+        result.invalid.push({
+          feature,
+          reason: feature.error ?? "Missing geometry",
+        });
+        return;
+      }
+      const plotNumber = feature.properties[matchKey];
+      if (!plotNumber) {
+        result.invalid.push({ feature, reason: `No "${matchKey}" value` });
+        return;
+      }
+      const key = normalize(plotNumber);
+      if (seen.has(key)) {
+        result.invalid.push({
+          feature,
+          reason: `Duplicate plot number ${plotNumber} in file`,
+        });
+        return;
+      }
+      seen.add(key);
+
+      const plot = plotsByNumber.get(key);
+      if (plot) {
+        result.matched.push({ feature, plot, boundaries: feature.boundaries });
+      } else {
+        result.created.push({
+          feature,
+          plotNumber,
+          boundaries: feature.boundaries,
+        });
+      }
+    });
+    return result;
+  }, [features, matchKey, plotsData]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsParsing(true);
+    try {
+      const parsed = await parseGeoFile(file);
+      const keys = new Set(parsed.flatMap((f) => Object.keys(f.properties)));
+      setFeatures(parsed);
+      setFileName(file.name);
+      setMatchKey(
+        LIKELY_KEYS.find((k) => keys.has(k)) ?? Array.from(keys)[0] ?? ""
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to read file"
+      );
+      setFeatures([]);
+      setFileName(null);
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const reset = () => {
+    setFeatures([]);
+    setFileName(null);
+    setMatchKey("");
+  };
+
+  // Pixel outlines traced before their space was recorded would be mistaken
+  // for map coordinates once imported outlines mark the project as
+  // georeferenced; outlines with a recorded space are read correctly
+  const hasUnreferencedOutlines =
+    !project.georeference &&
+    (plotsData ?? []).some((plot) => plot.boundaries && !plot.boundarySpace);
+
+  const willCreate = createUnmatched ? created.length : 0;
+  const needsBlock = willCreate > 0 && !blockId;
+  // New plots are priced from this rate, so a missing one would list them free
+  const needsRate = willCreate > 0 && !(pricePerUnit > 0);
+
+  const getNewPlotPrice = (area: number) =>
+    calculatePlotPrice(
+      { area, pricePerUnit, facing, plotType: "REGULAR" },
+      project.pricingRules
+    ).price;
+
+  const handleImport = async () => {
+    try {
+      // Flag the project first so outlines are never stored as map
+      // coordinates on a project that is not marked as georeferenced
+      if (!project.georeference) {
+        await updateProject.mutateAsync({
+          projectId: project._id,
+          data: { georeference: { source: "import", controlPoints: [] } },
+        });
+      }
+      if (matched.length > 0) {
+        await bulkUpdatePlots.mutateAsync({
+          projectId: project._id,
+          plots: matched.map(({ plot, boundaries }) => ({
+            _id: plot._id,
+            boundaries,
+            boundarySpace: "lngLat",
+          })),
+        });
+      }
+      if (willCreate > 0) {
+        await bulkCreatePlots.mutateAsync({
+          projectId: project._id,
+          plots: created.map(({ feature, plotNumber, boundaries }) => {
+            const area = convertSqMeters(feature.areaInSqMeters ?? 0, areaUnit);
+            return {
+              blockId,
+              plotNumber,
+              area,
+              areaUnit,
+              pricePerUnit,
+              price: getNewPlotPrice(area),
+              facing,
+              plotType: "REGULAR",
+              boundaries,
+              boundarySpace: "lngLat",
+            };
+          }),
+        });
+      }
+      setOpen(false);
+      reset();
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  const isSubmitting =
+    bulkCreatePlots.isPending ||
+    bulkUpdatePlots.isPending ||
+    updateProject.isPending;
+
+  const getFeatureLabel = (feature: ImportedFeature) =>
+    feature.properties[matchKey] ||
+    feature.properties.name ||
+    `Feature ${feature.index + 1}`;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button size="sm" variant="outline">
+            <FileUp size={16} className="mr-2" />
+            Import Boundaries
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Plot Boundaries</DialogTitle>
+          <DialogDescription>
+            Upload GeoJSON or KML outlines exported from QGIS or Google Earth
+            and match them to plots by plot number.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Survey File</Label>
+            <div className="flex items-center gap-4">
+              <Input
+                type="file"
+                accept=".geojson,.json,.kml"
+                onChange={handleFileChange}
+                className="cursor-pointer"
+              />
+              {isParsing && <Loader2 className="h-4 w-4 animate-spin" />}
+              {fileName && (
+                <span className="text-sm text-muted-foreground whitespace-nowrap">
+                  {features.length} features in {fileName}
+                </span>
+              )}
+            </div>
+          </div>
+
+          {features.length > 0 && (
+            <>
+              {hasUnreferencedOutlines && (
+                <div className="bg-destructive/10 text-destructive p-4 rounded-md text-sm">
+                  Some plots already have outlines traced on the site plan.
+                  Georeference them on the map before importing survey files.
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Match plots by property</Label>
+                  <Select value={matchKey} onValueChange={setMatchKey}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select property" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {propertyKeys.map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {key}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-end gap-2 pb-2">
+                  <Checkbox
+                    id="create-unmatched"
+                    checked={createUnmatched}
+                    onCheckedChange={(checked) =>
+                      setCreateUnmatched(checked === true)
+                    }
+                  />
+                  <Label htmlFor="create-unmatched">
+                    Create new plots for unmatched features
+                  </Label>
+                </div>
+              </div>
+
+              {createUnmatched && created.length > 0 && (
+                <div className="p-4 border rounded-md bg-muted/20 space-y-4">
+                  <h4 className="text-sm font-semibold">New plot defaults</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div className="space-y-2">
+                      <Label>Block</Label>
+                      <Select value={blockId} onValueChange={setBlockId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select Block" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {blocks?.map((block) => (
+                            <SelectItem key={block._id} value={block._id}>
+                              {block.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Area Unit</Label>
+                      <Select
+                        value={areaUnit}
+                        onValueChange={(v) => setAreaUnit(v as PlotAreaUnit)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {AREA_UNITS.map((unit) => (
+                            <SelectItem key={unit} value={unit}>
+                              {unit.replace("SQ_", "Sq. ")}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Price / Unit</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={pricePerUnit}
+                        onChange={(e) =>
+                          setPricePerUnit(Number(e.target.value))
+                        }
+                      />
+                      {needsRate && (
+                        <p className="text-xs text-destructive">
+                          Enter a rate above 0
+                        </p>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Facing</Label>
+                      <Select
+                        value={facing}
+                        onValueChange={(v) => setFacing(v as Facing)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FACING_OPTS.map((f) => (
+                            <SelectItem key={f} value={f}>
+                              {f.replace("_", " ")}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <Tabs defaultValue="matched">
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="matched">
+                    Matched ({matched.length})
+                  </TabsTrigger>
+                  <TabsTrigger value="new">
+                    Unmatched ({created.length})
+                  </TabsTrigger>
+                  <TabsTrigger value="invalid">
+                    Invalid ({invalid.length})
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="matched" className="mt-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Plot No.</TableHead>
+                        <TableHead>Recorded Area</TableHead>
+                        <TableHead>Surveyed Area</TableHead>
+                        <TableHead>Outline</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {matched.map(({ feature, plot }) => (
+                        <TableRow key={feature.index}>
+                          <TableCell className="font-medium">
+                            {plot.plotNumber}
+                          </TableCell>
+                          <TableCell>
+                            {plot.area} {plot.areaUnit.replace("SQ_", "Sq. ")}
+                          </TableCell>
+                          <TableCell>
+                            {convertSqMeters(
+                              feature.areaInSqMeters ?? 0,
+                              plot.areaUnit
+                            )}{" "}
+                            {plot.areaUnit.replace("SQ_", "Sq. ")}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={
+                                plot.boundaries ? "outline" : "secondary"
+                              }
+                            >
+                              {plot.boundaries ? "replace" : "new"}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+
+                <TabsContent value="new" className="mt-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Plot No.</TableHead>
+                        <TableHead>Area</TableHead>
+                        <TableHead>Price</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {created.map(({ feature, plotNumber }) => {
+                        const area = convertSqMeters(
+                          feature.areaInSqMeters ?? 0,
+                          areaUnit
+                        );
+                        return (
+                          <TableRow
+                            key={feature.index}
+                            className={createUnmatched ? "" : "opacity-50"}
+                          >
+                            <TableCell className="font-medium">
+                              {plotNumber}
+                            </TableCell>
+                            <TableCell>
+                              {area} {areaUnit.replace("SQ_", "Sq. ")}
+                            </TableCell>
+                            <TableCell>
+                              ₹{getNewPlotPrice(area).toLocaleString()}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+
+                <TabsContent value="invalid" className="mt-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Feature</TableHead>
+                        <TableHead>Problem</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invalid.map(({ feature, reason }) => (
+                        <TableRow key={feature.index}>
+                          <TableCell className="font-medium">
+                            {getFeatureLabel(feature)}
+                          </TableCell>
+                          <TableCell className="text-destructive">
+                            {reason}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={
+                isSubmitting ||
+                needsBlock ||
+                needsRate ||
+                hasUnreferencedOutlines ||
+                // Matching needs every existing plot to avoid duplicates
+                !plotsData ||
+                matched.length + willCreate === 0
+              }
+            >
+              {isSubmitting && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Update {matched.length} / Create {willCreate} Plots
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportBoundariesDialog;
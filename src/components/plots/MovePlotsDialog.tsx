@@ -0,0 +1,216 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowRightLeft, Loader2 } from "lucide-react";
+import { useBlocksByProject } from "@/hooks/useBlock";
+import { useAllPlotsByProject, useBulkUpdatePlots } from "@/hooks/usePlot";
+import { Project } from "@/types/project.types";
+
+// Select items cannot hold an empty value, so "all blocks" gets a sentinel
+const ALL_BLOCKS = "__all__";
+
+interface MovePlotsDialogProps {
+  project: Project;
+}
+
+// Re-phases a layout by moving a hand-picked set of plots into another block
+const MovePlotsDialog = ({ project }: MovePlotsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [sourceBlockId, setSourceBlockId] = useState(ALL_BLOCKS);
+  const [targetBlockId, setTargetBlockId] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const { data: blocks } = useBlocksByProject(project._id);
+  const { data: plots, isLoading: isPlotsLoading } = useAllPlotsByProject(
+    project._id,
+    {},
+    open
+  );
+  const bulkUpdate = useBulkUpdatePlots();
+
+  const blockNames = new Map(blocks?.map((b) => [b._id, b.name]));
+  const visiblePlots =
+    plots?.filter(
+      (plot) => sourceBlockId === ALL_BLOCKS || plot.blockId === sourceBlockId
+    ) ?? [];
+  // Plots already in the target block would not move, so they are left out
+  const movingIds = selectedIds.filter(
+    (id) => plots?.find((plot) => plot._id === id)?.blockId !== targetBlockId
+  );
+  const allVisibleSelected =
+    visiblePlots.length > 0 &&
+    visiblePlots.every((plot) => selectedIds.includes(plot._id));
+
+  const togglePlot = (plotId: string, checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? [...prev, plotId] : prev.filter((id) => id !== plotId)
+    );
+  };
+
+  const toggleVisible = (checked: boolean) => {
+    const visibleIds = visiblePlots.map((plot) => plot._id);
+    setSelectedIds((prev) =>
+      checked
+        ? Array.from(new Set([...prev, ...visibleIds]))
+        : prev.filter((id) => !visibleIds.includes(id))
+    );
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setSourceBlockId(ALL_BLOCKS);
+      setTargetBlockId("");
+      setSelectedIds([]);
+    }
+  };
+
+  const handleMove = async () => {
+    try {
+      await bulkUpdate.mutateAsync({
+        projectId: project._id,
+        plots: movingIds.map((id) => ({ _id: id, blockId: targetBlockId })),
+      });
+      handleOpenChange(false);
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={!blocks || blocks.length < 2}>
+          <ArrowRightLeft className="mr-2 h-4 w-4" />
+          Move Plots
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Move Plots to Block</DialogTitle>
+          <DialogDescription>
+            Select plots and the block they should move to. Prices, status and
+            boundaries are kept as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Show plots from</Label>
+            <Select value={sourceBlockId} onValueChange={setSourceBlockId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_BLOCKS}>All blocks</SelectItem>
+                {blocks?.map((b) => (
+                  <SelectItem key={b._id} value={b._id}>
+                    {b.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Move to</Label>
+            <Select value={targetBlockId} onValueChange={setTargetBlockId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select target block" />
+              </SelectTrigger>
+              <SelectContent>
+                {blocks?.map((b) => (
+                  <SelectItem key={b._id} value={b._id}>
+                    {b.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isPlotsLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : visiblePlots.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No plots in this block.
+          </p>
+        ) : (
+          <div className="border rounded-md">
+            <div className="flex items-center gap-2 border-b px-3 py-2">
+              <Checkbox
+                id="move-plots-all"
+                checked={allVisibleSelected}
+                onCheckedChange={(checked) => toggleVisible(checked === true)}
+              />
+              <Label htmlFor="move-plots-all">
+                Select all {visiblePlots.length} shown
+              </Label>
+              <span className="ml-auto text-sm text-muted-foreground">
+                {selectedIds.length} selected
+              </span>
+            </div>
+            <div className="max-h-64 overflow-y-auto grid grid-cols-2 sm:grid-cols-3 gap-1 p-2">
+              {visiblePlots.map((plot) => (
+                <label
+                  key={plot._id}
+                  className="flex items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-muted cursor-pointer"
+                >
+                  <Checkbox
+                    checked={selectedIds.includes(plot._id)}
+                    onCheckedChange={(checked) =>
+                      togglePlot(plot._id, checked === true)
+                    }
+                  />
+                  <span className="font-medium">{plot.plotNumber}</span>
+                  {sourceBlockId === ALL_BLOCKS && (
+                    <Badge variant="outline" className="ml-auto truncate">
+                      {blockNames.get(plot.blockId) ?? "No block"}
+                    </Badge>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleMove}
+            disabled={
+              !targetBlockId || movingIds.length === 0 || bulkUpdate.isPending
+            }
+          >
+            {bulkUpdate.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Move {movingIds.length} Plots
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MovePlotsDialog;
@@ -0,0 +1,560 @@
+import React, { useMemo, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  ArrowRightLeft,
+  ChevronDown,
+  Download,
+  Loader2,
+  Tag,
+  Trash2,
+  TrendingUp,
+  X,
+} from "lucide-react";
+import {
+  useAllPlotsByProject,
+  useBulkPlotOperation,
+  useFetchAllPlots,
+} from "@/hooks/usePlot";
+import { useCreatePriceRevision } from "@/hooks/usePriceRevisions";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useBlocksByProject } from "@/hooks/useBlock";
+import { PriceChangeType, revisePlotPrices } from "@/lib/pricing";
+import { SheetFormat } from "@/lib/spreadsheet";
+import { downloadPlotsSheet } from "@/components/plots/ExportPlotsButton";
+import { PLOT_STATUSES } from "@/schema/plot.schema";
+import {
+  BulkPlotOperation,
+  BulkPlotResult,
+  Plot,
+  PlotStatus,
+  PriceRevisionPlot,
+  Project,
+} from "@/types/project.types";
+
+type BulkAction =
+  | { kind: "status"; status: PlotStatus }
+  | { kind: "move"; blockId: string }
+  | { kind: "price" }
+  | { kind: "delete" };
+
+interface BulkPlan {
+  title: string;
+  description: string;
+  // Run on each plot, or for price changes saved as one revision that can
+  // be rolled back
+  operation?: BulkPlotOperation;
+  revisions?: PriceRevisionPlot[];
+  plots: Plot[];
+  // Plots left out before any request is made, with the reason
+  skipped: BulkPlotResult[];
+}
+
+const skip = (plot: Plot, error: string): BulkPlotResult => ({
+  plot,
+  ok: false,
+  error,
+});
+
+interface PlotBulkActionsProps {
+  project: Project;
+  selectedPlotIds: Set<string>;
+  onClear: () => void;
+}
+
+// Toolbar shown above the plots table while plots are selected. Every action
+// except export goes through a confirm step, shows progress and ends with a
+// per-plot report
+const PlotBulkActions = ({
+  project,
+  selectedPlotIds,
+  onClear,
+}: PlotBulkActionsProps) => {
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [priceChange, setPriceChange] = useState<{
+    type: PriceChangeType;
+    amount: string;
+  }>({ type: "PERCENTAGE", amount: "" });
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [results, setResults] = useState<BulkPlotResult[] | null>(null);
+
+  const { data: blocks } = useBlocksByProject(project._id);
+  const bulkOperation = useBulkPlotOperation();
+  const createRevision = useCreatePriceRevision();
+  const fetchAllPlots = useFetchAllPlots("Failed to export plots");
+  const { can } = usePermissions();
+
+  // Plots are loaded fresh while an action is open so the plan never works
+  // from rows that changed since they were selected
+  const { data: projectPlots, isFetching: isLoadingPlots } =
+    useAllPlotsByProject(project._id, {}, !!action);
+  const selectedPlots = useMemo(
+    () => (projectPlots ?? []).filter((p) => selectedPlotIds.has(p._id)),
+    [projectPlots, selectedPlotIds]
+  );
+
+  const buildPlan = (current: BulkAction): BulkPlan => {
+    switch (current.kind) {
+      case "status":
+        return {
+          title: `Mark plots as ${current.status}`,
+          description: `Change the status of the selected plots to ${current.status}.`,
+          operation: { type: "status", status: current.status },
+          plots: selectedPlots.filter((p) => p.status !== current.status),
+          skipped: selectedPlots
+            .filter((p) => p.status === current.status)
+            .map((p) => skip(p, `Already ${current.status}`)),
+        };
+      case "move": {
+        const blockName =
+          blocks?.find((b) => b._id === current.blockId)?.name ?? "block";
+        return {
+          title: `Move plots to ${blockName}`,
+          description: `Move the selected plots into ${blockName}. Prices, status and boundaries are kept.`,
+          operation: {
+            type: "update",
+            updates: Object.fromEntries(
+              selectedPlots.map((p) => [p._id, { blockId: current.blockId }])
+            ),
+          },
+          plots: selectedPlots.filter((p) => p.blockId !== current.blockId),
+          skipped: selectedPlots
+            .filter((p) => p.blockId === current.blockId)
+            .map((p) => skip(p, `Already in ${blockName}`)),
+        };
+      }
+      case "price": {
+        // Booked and sold plots keep the price agreed with the buyer
+        const committed = selectedPlots.filter(
+          (p) => p.status === "booked" || p.status === "sold"
+        );
+        const revisions = revisePlotPrices(
+          selectedPlots.filter((p) => !committed.includes(p)),
+          { blockIds: [], statuses: [], plotTypes: [], facings: [] },
+          { type: priceChange.type, amount: Number(priceChange.amount) || 0 },
+          project.pricingRules
+        );
+        const revisedIds = new Set(revisions.map((r) => r._id));
+        return {
+          title: "Apply price change",
+          description:
+            "Change the rate of the selected plots and re-price them through the project's pricing rules.",
+          revisions,
+          plots: selectedPlots.filter((p) => revisedIds.has(p._id)),
+          skipped: [
+            ...committed.map((p) =>
+              skip(p, `${p.status} plots keep their agreed price`)
+            ),
+            ...selectedPlots
+              .filter((p) => !committed.includes(p) && !revisedIds.has(p._id))
+              .map((p) => skip(p, "Rate would drop to zero or below")),
+          ],
+        };
+      }
+      case "delete":
+        return {
+          title: "Delete plots",
+          description:
+            "Permanently delete the selected plots. This cannot be undone.",
+          operation: { type: "delete" },
+          plots: selectedPlots.filter((p) => p.status === "available"),
+          skipped: selectedPlots
+            .filter((p) => p.status !== "available")
+            .map((p) => skip(p, `${p.status} plots cannot be deleted`)),
+        };
+    }
+  };
+
+  // The report stays up while the plots refetch after a run
+  const plan =
+    action && projectPlots && (!isLoadingPlots || results)
+      ? buildPlan(action)
+      : null;
+  const isPriceInvalid =
+    action?.kind === "price" &&
+    (!priceChange.amount || Number(priceChange.amount) === 0);
+
+  const isRunning = bulkOperation.isPending || createRevision.isPending;
+
+  const handleClose = () => {
+    if (isRunning) return;
+    setAction(null);
+    setPriceChange({ type: "PERCENTAGE", amount: "" });
+    setProgress({ done: 0, total: 0 });
+    // Selected rows are stale once an action has run
+    if (results) onClear();
+    setResults(null);
+  };
+
+  const handleRun = async () => {
+    if (!plan) return;
+    setProgress({ done: 0, total: plan.plots.length });
+    try {
+      if (plan.revisions) {
+        const amount = Number(priceChange.amount);
+        const sign = amount > 0 ? "+" : "-";
+        const change =
+          priceChange.type === "PERCENTAGE"
+            ? `${sign}${Math.abs(amount)}%`
+            : `${sign}₹${Math.abs(amount)}/unit`;
+        // The revision applies every price in one request
+        await createRevision.mutateAsync({
+          projectId: project._id,
+          description: `${change} on ${plan.revisions.length} selected plots`,
+          plots: plan.revisions,
+        });
+        setResults([
+          ...plan.plots.map((plot) => ({ plot, ok: true })),
+          ...plan.skipped,
+        ]);
+        return;
+      }
+      if (!plan.operation) return;
+      const outcome = await bulkOperation.mutateAsync({
+        projectId: project._id,
+        plots: plan.plots,
+        operation: plan.operation,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setResults([...outcome, ...plan.skipped]);
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  const handleExport = async (sheetFormat: SheetFormat) => {
+    let plots: Plot[];
+    try {
+      const allPlots = await fetchAllPlots.mutateAsync({
+        projectId: project._id,
+        params: {},
+      });
+      plots = allPlots.filter((p) => selectedPlotIds.has(p._id));
+    } catch {
+      // Error is handled by the mutation hook
+      return;
+    }
+    try {
+      await downloadPlotsSheet(project, plots, blocks ?? [], sheetFormat);
+      toast.success(`Exported ${plots.length} plots`);
+    } catch {
+      toast.error("Failed to create the export file");
+    }
+  };
+
+  const succeeded = results?.filter((r) => r.ok).length ?? 0;
+  const failed = results?.filter((r) => !r.ok) ?? [];
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-primary/5 p-3">
+        <span className="text-sm font-medium mr-2">
+          {selectedPlotIds.size} selected
+        </span>
+
+        {can("plot.status") && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline">
+                <Tag className="mr-2 h-4 w-4" />
+                Status
+                <ChevronDown className="ml-1 h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuLabel>Mark as</DropdownMenuLabel>
+              {PLOT_STATUSES.map((status) => (
+                <DropdownMenuItem
+                  key={status}
+                  className="capitalize"
+                  onClick={() => setAction({ kind: "status", status })}
+                >
+                  {status}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
+        {can("plot.edit") && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline" disabled={!blocks?.length}>
+                <ArrowRightLeft className="mr-2 h-4 w-4" />
+                Move
+                <ChevronDown className="ml-1 h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuLabel>Move to block</DropdownMenuLabel>
+              {blocks?.map((block) => (
+                <DropdownMenuItem
+                  key={block._id}
+                  onClick={() =>
+                    setAction({ kind: "move", blockId: block._id })
+                  }
+                >
+                  {block.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
+        {can("pricing.edit") && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setAction({ kind: "price" })}
+          >
+            <TrendingUp className="mr-2 h-4 w-4" />
+            Price
+          </Button>
+        )}
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={fetchAllPlots.isPending}
+            >
+              {fetchAllPlots.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuItem onClick={() => handleExport("csv")}>
+              Export as CSV
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+              Export as Excel (.xlsx)
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {can("plot.delete") && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-destructive hover:text-destructive"
+            onClick={() => setAction({ kind: "delete" })}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        )}
+
+        <Button size="sm" variant="ghost" className="ml-auto" onClick={onClear}>
+          <X className="mr-2 h-4 w-4" />
+          Clear selection
+        </Button>
+      </div>
+
+      <Dialog
+        open={!!action}
+        onOpenChange={(isOpen) => !isOpen && handleClose()}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{plan?.title}</DialogTitle>
+            <DialogDescription>{plan?.description}</DialogDescription>
+          </DialogHeader>
+
+          {action?.kind === "price" && !results && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Change</Label>
+                <Select
+                  value={priceChange.type}
+                  onValueChange={(type) =>
+                    setPriceChange((prev) => ({
+                      ...prev,
+                      type: type as PriceChangeType,
+                    }))
+                  }
+                  disabled={isRunning}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="PERCENTAGE">Percentage (%)</SelectItem>
+                    <SelectItem value="ABSOLUTE">
+                      Amount per unit (₹)
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulk-price-amount">Amount</Label>
+                <Input
+                  id="bulk-price-amount"
+                  type="number"
+                  placeholder="e.g. 5 or -10"
+                  value={priceChange.amount}
+                  onChange={(e) =>
+                    setPriceChange((prev) => ({
+                      ...prev,
+                      amount: e.target.value,
+                    }))
+                  }
+                  disabled={isRunning}
+                />
+              </div>
+            </div>
+          )}
+
+          {!plan && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading the latest plot details...
+            </div>
+          )}
+
+          {plan && !results && (
+            <div className="space-y-3 text-sm">
+              <p>
+                <span className="font-medium">{plan.plots.length}</span> of{" "}
+                {selectedPlots.length} selected plots will be changed.
+              </p>
+              {plan.skipped.length > 0 && (
+                <p className="text-muted-foreground">
+                  {plan.skipped.length} will be skipped:{" "}
+                  {plan.skipped
+                    .map((r) => `${r.plot.plotNumber} (${r.error})`)
+                    .join(", ")}
+                </p>
+              )}
+              {bulkOperation.isPending && (
+                <div className="space-y-1">
+                  <Progress
+                    value={
+                      progress.total
+                        ? (progress.done / progress.total) * 100
+                        : 0
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {progress.done} of {progress.total} done
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {results && (
+            <div className="space-y-3">
+              <div className="flex gap-2 text-sm">
+                <Badge variant="secondary">{succeeded} succeeded</Badge>
+                {failed.length > 0 && (
+                  <Badge variant="destructive">
+                    {failed.length} failed or skipped
+                  </Badge>
+                )}
+              </div>
+              <div className="max-h-72 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Plot No.</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...failed, ...results.filter((r) => r.ok)].map((r) => (
+                      <TableRow key={r.plot._id}>
+                        <TableCell className="font-medium">
+                          {r.plot.plotNumber}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={r.ok ? "secondary" : "destructive"}>
+                            {r.ok ? "Done" : "Not changed"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {r.error ?? "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {results ? (
+              <Button onClick={handleClose}>Done</Button>
+            ) : (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={handleClose}
+                  disabled={isRunning}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant={
+                    action?.kind === "delete" ? "destructive" : "default"
+                  }
+                  onClick={handleRun}
+                  disabled={!plan?.plots.length || isPriceInvalid || isRunning}
+                >
+                  {isRunning && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  {action?.kind === "delete"
+                    ? `Delete ${plan?.plots.length ?? 0} Plots`
+                    : `Update ${plan?.plots.length ?? 0} Plots`}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PlotBulkActions;
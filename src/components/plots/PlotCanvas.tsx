@@ -1,7 +1,295 @@
-import React from "react";
+"use client";
 
-const PlotCanvas = () => {
-  return <div>PlotCanvas</div>;
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import ReactFlow, {
+  Background,
+  Controls,
+  MiniMap,
+  Node,
+  NodeProps,
+  NodeResizer,
+  Panel,
+  useNodesState,
+} from "reactflow";
+import "reactflow/dist/style.css";
+import { Loader2, RotateCw, Save, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { useAllPlotsByProject, useBulkUpdatePlots } from "@/hooks/usePlot";
+import { CanvasPosition, Plot, PlotStatus } from "@/types/project.types";
+
+// Layout defaults for plots that have never been placed on the canvas
+const DEFAULT_WIDTH = 80;
+const DEFAULT_HEIGHT = 60;
+const DEFAULT_GAP = 20;
+const DEFAULT_COLUMNS = 10;
+const MIN_SIZE = 20;
+
+const STATUS_COLORS: Record<PlotStatus, string> = {
+  available:
+    "bg-green-500/20 border-green-600 text-green-900 dark:text-green-100",
+  booked: "bg-blue-500/20 border-blue-600 text-blue-900 dark:text-blue-100",
+  reserved:
+    "bg-yellow-500/20 border-yellow-600 text-yellow-900 dark:text-yellow-100",
+  sold: "bg-red-500/20 border-red-600 text-red-900 dark:text-red-100",
+};
+
+interface PlotNodeData {
+  plot: Plot;
+  rotation: number;
+  isPlaced: boolean;
+  onGeometryChange: (plotId: string, patch: Partial<CanvasPosition>) => void;
+}
+
+const getDefaultPosition = (index: number): CanvasPosition => ({
+  x: (index % DEFAULT_COLUMNS) * (DEFAULT_WIDTH + DEFAULT_GAP),
+  y: Math.floor(index / DEFAULT_COLUMNS) * (DEFAULT_HEIGHT + DEFAULT_GAP),
+  width: DEFAULT_WIDTH,
+  height: DEFAULT_HEIGHT,
+  rotation: 0,
+});
+
+const PlotNode = ({ id, data, selected }: NodeProps<PlotNodeData>) => {
+  const { plot, isPlaced, onGeometryChange } = data;
+  const boxRef = useRef<HTMLDivElement>(null);
+  // Local rotation while the handle is being dragged, committed on release
+  const [liveRotation, setLiveRotation] = useState<number | null>(null);
+  const rotation = liveRotation ?? data.rotation;
+
+  const handleRotateStart = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    const box = boxRef.current?.getBoundingClientRect();
+    if (!box) return;
+    const centerX = box.left + box.width / 2;
+    const centerY = box.top + box.height / 2;
+    let latest = data.rotation;
+
+    const onMove = (ev: PointerEvent) => {
+      const angle =
+        (Math.atan2(ev.clientY - centerY, ev.clientX - centerX) * 180) /
+          Math.PI +
+        90;
+      const snapped = ev.shiftKey ? Math.round(angle / 15) * 15 : angle;
+      latest = Math.round(((snapped % 360) + 360) % 360);
+      setLiveRotation(latest);
+    };
+    const onUp = () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      setLiveRotation(null);
+      onGeometryChange(id, { rotation: latest });
+    };
+
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+  };
+
+  return (
+    <>
+      <NodeResizer
+        isVisible={selected}
+        minWidth={MIN_SIZE}
+        minHeight={MIN_SIZE}
+        onResizeEnd={(_, params) =>
+          onGeometryChange(id, {
+            x: params.x,
+            y: params.y,
+            width: params.width,
+            height: params.height,
+          })
+        }
+      />
+      <div
+        ref={boxRef}
+        className={cn(
+          "relative h-full w-full rounded-sm border-2 flex flex-col items-center justify-center text-[10px] font-medium leading-tight",
+          STATUS_COLORS[plot.status],
+          !isPlaced && "border-dashed opacity-70"
+        )}
+        style={{ transform: `rotate(${rotation}deg)` }}
+      >
+        <span className="truncate max-w-full px-1">{plot.plotNumber}</span>
+        <span className="opacity-70">
+          {plot.area} {plot.areaUnit.replace("SQ_", "Sq. ")}
+        </span>
+        {selected && (
+          <div
+            className="nodrag absolute -top-6 left-1/2 -translate-x-1/2 h-4 w-4 rounded-full border bg-background flex items-center justify-center cursor-grab"
+            onPointerDown={handleRotateStart}
+          >
+            <RotateCw className="h-3 w-3" />
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+const nodeTypes = { plot: PlotNode };
+
+interface PlotCanvasProps {
+  projectId: string;
+}
+
+const PlotCanvas = ({ projectId }: PlotCanvasProps) => {
+  const { data: plotsData, isLoading } = useAllPlotsByProject(projectId);
+  const bulkUpdatePlots = useBulkUpdatePlots();
+  const [nodes, setNodes, onNodesChange] = useNodesState<PlotNodeData>([]);
+  // Canvas positions edited since the last save, keyed by plot id
+  const [pending, setPending] = useState<Record<string, CanvasPosition>>({});
+
+  const plots = useMemo(() => plotsData ?? [], [plotsData]);
+
+  const getBasePosition = useCallback(
+    (plotId: string): CanvasPosition => {
+      const index = plots.findIndex((p) => p._id === plotId);
+      return plots[index]?.canvasPosition ?? getDefaultPosition(index);
+    },
+    [plots]
+  );
+
+  const handleGeometryChange = useCallback(
+    (plotId: string, patch: Partial<CanvasPosition>) => {
+      setPending((prev) => ({
+        ...prev,
+        [plotId]: {
+          ...(prev[plotId] ?? getBasePosition(plotId)),
+          ...patch,
+        },
+      }));
+    },
+    [getBasePosition]
+  );
+
+  // Rebuild nodes from server data, keeping unsaved edits and selection
+  useEffect(() => {
+    setNodes((prev) => {
+      const selected = new Set(prev.filter((n) => n.selected).map((n) => n.id));
+      return plots.map((plot, index): Node<PlotNodeData> => {
+        const position =
+          pending[plot._id] ?? plot.canvasPosition ?? getDefaultPosition(index);
+        return {
+          id: plot._id,
+          type: "plot",
+          position: { x: position.x, y: position.y },
+          style: { width: position.width, height: position.height },
+          selected: selected.has(plot._id),
+          data: {
+            plot,
+            rotation: position.rotation ?? 0,
+            isPlaced: !!plot.canvasPosition || !!pending[plot._id],
+            onGeometryChange: handleGeometryChange,
+          },
+        };
+      });
+    });
+  }, [plots, pending, setNodes, handleGeometryChange]);
+
+  const handleNodeDragStop = (
+    _: React.MouseEvent,
+    _node: Node,
+    draggedNodes: Node[]
+  ) => {
+    draggedNodes.forEach((node) =>
+      handleGeometryChange(node.id, {
+        x: node.position.x,
+        y: node.position.y,
+      })
+    );
+  };
+
+  const pendingCount = Object.keys(pending).length;
+
+  const handleSave = async () => {
+    if (pendingCount === 0) return;
+    try {
+      await bulkUpdatePlots.mutateAsync({
+        projectId,
+        plots: Object.entries(pending).map(([_id, canvasPosition]) => ({
+          _id,
+          canvasPosition,
+        })),
+      });
+      setPending({});
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  if (plots.length === 0) {
+    return (
+      <div className="text-center py-10 bg-muted/20 rounded-lg border border-dashed">
+        <p className="text-muted-foreground">
+          No plots to lay out yet. Add plots to start arranging the site.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-[600px] w-full rounded-md border bg-card overflow-hidden">
+      <ReactFlow
+        nodes={nodes}
+        onNodesChange={onNodesChange}
+        onNodeDragStop={handleNodeDragStop}
+        nodeTypes={nodeTypes}
+        nodesConnectable={false}
+        snapToGrid
+        snapGrid={[5, 5]}
+        minZoom={0.1}
+        fitView
+      >
+        <Background gap={20} />
+        <Controls showInteractive={false} />
+        <MiniMap pannable zoomable />
+        <Panel position="top-right" className="flex items-center gap-2">
+          {pendingCount > 0 && (
+            <Badge variant="secondary">{pendingCount} unsaved</Badge>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPending({})}
+            disabled={pendingCount === 0 || bulkUpdatePlots.isPending}
+          >
+            <Undo2 className="mr-2 h-4 w-4" />
+            Discard
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={pendingCount === 0 || bulkUpdatePlots.isPending}
+          >
+            {bulkUpdatePlots.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save Layout
+          </Button>
+        </Panel>
+        <Panel
+          position="bottom-left"
+          className="!ml-14 text-xs text-muted-foreground bg-background/80 rounded px-2 py-1"
+        >
+          Drag to move, select to resize, use the handle to rotate (hold Shift
+          to snap to 15°). Dashed plots have not been placed yet.
+        </Panel>
+      </ReactFlow>
+    </div>
+  );
 };
 
 export default PlotCanvas;
@@ -0,0 +1,336 @@
+import React from "react";
+import { UseFormReturn } from "react-hook-form";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import PriceBreakdown from "@/components/plots/PriceBreakdown";
+import { calculatePlotPrice } from "@/lib/pricing";
+import {
+  AREA_UNITS,
+  CreatePlotFormValues,
+  FACING_OPTS,
+  PLOT_TYPES,
+} from "@/schema/plot.schema";
+import { Block, PricingRule } from "@/types/project.types";
+
+// Fields that feed the price, so editing one of them re-prices the plot
+const PRICED_FIELDS = [
+  "area",
+  "pricePerUnit",
+  "plotType",
+  "facing",
+  "frontRoadWidth",
+] as const;
+
+interface PlotFormFieldsProps {
+  form: UseFormReturn<CreatePlotFormValues>;
+  blocks?: Block[];
+  isBlocksLoading?: boolean;
+  pricingRules: PricingRule[];
+  applyBlockDefaults?: boolean;
+  // Roles without pricing rights see the price but cannot change it
+  priceLocked?: boolean;
+}
+
+// Single plot fields shared by the create and edit dialogs
+const PlotFormFields = ({
+  form,
+  blocks,
+  isBlocksLoading,
+  pricingRules,
+  applyBlockDefaults = false,
+  priceLocked = false,
+}: PlotFormFieldsProps) => {
+  const area = Number(form.watch("area"));
+  const pricePerUnit = Number(form.watch("pricePerUnit"));
+  const plotType = form.watch("plotType");
+  const facing = form.watch("facing");
+  const frontRoadWidth = form.watch("frontRoadWidth");
+
+  const breakdown = React.useMemo(
+    () =>
+      area && pricePerUnit
+        ? calculatePlotPrice(
+            {
+              area,
+              pricePerUnit,
+              plotType,
+              facing,
+              frontRoadWidth: frontRoadWidth
+                ? Number(frontRoadWidth)
+                : undefined,
+            },
+            pricingRules
+          )
+        : undefined,
+    [area, pricePerUnit, plotType, facing, frontRoadWidth, pricingRules]
+  );
+
+  // A stored price is kept until one of the priced fields is edited
+  const isPriceStale = PRICED_FIELDS.some(
+    (name) => form.getFieldState(name, form.formState).isDirty
+  );
+
+  React.useEffect(() => {
+    if (breakdown && isPriceStale && !priceLocked) {
+      form.setValue("price", breakdown.price);
+    }
+  }, [breakdown, isPriceStale, priceLocked, form]);
+
+  // Pre-fills the attributes the chosen block has defaults for
+  const handleBlockDefaults = (blockId: string) => {
+    const defaults = blocks?.find((b) => b._id === blockId)?.plotDefaults;
+    const options = { shouldDirty: true };
+    if (defaults?.areaUnit)
+      form.setValue("areaUnit", defaults.areaUnit, options);
+    if (defaults?.pricePerUnit)
+      form.setValue("pricePerUnit", defaults.pricePerUnit, options);
+    if (defaults?.facing) form.setValue("facing", defaults.facing, options);
+    if (defaults?.plotType)
+      form.setValue("plotType", defaults.plotType, options);
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="blockId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Block</FormLabel>
+              <Select
+                onValueChange={(val) => {
+                  field.onChange(val);
+                  if (applyBlockDefaults) handleBlockDefaults(val);
+                }}
+                value={field.value}
+                disabled={isBlocksLoading || !blocks?.length}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select Block" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {blocks?.map((block) => (
+                    <SelectItem key={block._id} value={block._id}>
+                      {block.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="plotNumber"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Plot Number</FormLabel>
+              <FormControl>
+                <Input placeholder="A-101" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField
+          control={form.control}
+          name="area"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Area</FormLabel>
+              <FormControl>
+                <Input type="number" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="areaUnit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Unit</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Unit" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {AREA_UNITS.map((unit) => (
+                    <SelectItem key={unit} value={unit}>
+                      {unit.replace("SQ_", "Sq. ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="plotType"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Plot Type</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select type" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {PLOT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField
+          control={form.control}
+          name="dimensions.length"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Length</FormLabel>
+              <FormControl>
+                <Input type="number" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="dimensions.width"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Width</FormLabel>
+              <FormControl>
+                <Input type="number" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="frontRoadWidth"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Front Road Width (ft)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  {...field}
+                  value={field.value ?? ""}
+                  onChange={(e) => field.onChange(e.target.value || undefined)}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField
+          control={form.control}
+          name="pricePerUnit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Price / Unit</FormLabel>
+              <FormControl>
+                <Input type="number" {...field} disabled={priceLocked} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="price"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Total Price</FormLabel>
+              <FormControl>
+                <Input type="number" {...field} disabled={priceLocked} />
+              </FormControl>
+              {priceLocked && (
+                <FormDescription>
+                  Your role cannot change prices
+                </FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="facing"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Facing</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Facing" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {FACING_OPTS.map((f) => (
+                    <SelectItem key={f} value={f}>
+                      {f.replace("_", " ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      {pricingRules.length > 0 && breakdown && (
+        <PriceBreakdown breakdown={breakdown} />
+      )}
+    </>
+  );
+};
+
+export default PlotFormFields;
@@ -0,0 +1,523 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import mapboxgl from "mapbox-gl";
+import "mapbox-gl/dist/mapbox-gl.css";
+import { Loader2, MapPinned, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { cn } from "@/lib/utils";
+import {
+  AffineTransform,
+  applyAffine,
+  canvasPositionToRing,
+  distanceInMeters,
+  fitAffine,
+  getBoundarySpace,
+  getOuterRing,
+  getRingInSpace,
+  Point,
+  toPolygon,
+} from "@/lib/geometry";
+import { useAllPlotsByProject, useBulkUpdatePlots } from "@/hooks/usePlot";
+import { useUpdateProject } from "@/hooks/useProject";
+import {
+  GeoreferenceSource,
+  Plot,
+  PlotStatus,
+  Project,
+} from "@/types/project.types";
+
+const MIN_CONTROL_POINTS = 3;
+const PREVIEW_SOURCE_ID = "plot-preview";
+const IDENTITY: AffineTransform = [1, 0, 0, 0, 1, 0];
+
+// Imported outlines have no source image or canvas to pin from
+type ControlSource = Exclude<GeoreferenceSource, "import">;
+
+const STATUS_COLORS: Record<PlotStatus, string> = {
+  available: "#22c55e",
+  booked: "#3b82f6",
+  reserved: "#eab308",
+  sold: "#ef4444",
+};
+
+interface DraftControlPoint {
+  source: Point;
+  target?: Point;
+}
+
+interface SourceShape {
+  plot: Plot;
+  ring: Point[];
+}
+
+// Outline of each plot in source coordinates (site plan pixels or canvas units)
+const getSourceShapes = (
+  plots: Plot[],
+  source: ControlSource,
+  project: Project
+): SourceShape[] => {
+  if (source === "canvas") {
+    return plots.flatMap((plot) => {
+      // DXF imports keep their exact outline in canvas units
+      const outline = getRingInSpace(plot, "canvas", project.georeference);
+      if (outline.length >= 3) return [{ plot, ring: outline }];
+      // Outlines traced on the site plan cannot be placed from the canvas
+      // and are left alone rather than replaced by the plot's box
+      if (plot.boundaries || !plot.canvasPosition) return [];
+      return [{ plot, ring: canvasPositionToRing(plot.canvasPosition) }];
+    });
+  }
+
+  // Traced outlines are pixels until the project is georeferenced from the
+  // site plan, after which they are stored as [lng, lat]
+  return plots
+    .map((plot) => ({
+      plot,
+      ring: getRingInSpace(plot, "sitePlan", project.georeference),
+    }))
+    .filter(({ ring }) => ring.length >= 3);
+};
+
+const getBounds = (shapes: SourceShape[]) => {
+  const xs = shapes.flatMap(({ ring }) => ring.map((p) => p[0]));
+  const ys = shapes.flatMap(({ ring }) => ring.map((p) => p[1]));
+  const pad = 20;
+  return {
+    minX: Math.min(...xs) - pad,
+    minY: Math.min(...ys) - pad,
+    width: Math.max(...xs) - Math.min(...xs) + pad * 2,
+    height: Math.max(...ys) - Math.min(...ys) + pad * 2,
+  };
+};
+
+const toFeatureCollection = (
+  shapes: SourceShape[],
+  transform: AffineTransform | null
+): GeoJSON.FeatureCollection => ({
+  type: "FeatureCollection",
+  features: transform
+    ? shapes.map(({ plot, ring }) => ({
+        type: "Feature",
+        properties: {
+          plotNumber: plot.plotNumber,
+          color: STATUS_COLORS[plot.status],
+        },
+        geometry: toPolygon(ring.map((p) => applyAffine(transform, p))),
+      }))
+    : [],
+});
+
+interface PlotGeoreferencerProps {
+  project: Project;
+}
+
+const PlotGeoreferencer = ({ project }: PlotGeoreferencerProps) => {
+  const mapRef = useRef<mapboxgl.Map | null>(null);
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const markersRef = useRef<mapboxgl.Marker[]>([]);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [mapLoaded, setMapLoaded] = useState(false);
+  const [imageSize, setImageSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  const storedSource = project.georeference?.source;
+  const [source, setSource] = useState<ControlSource>(
+    storedSource && storedSource !== "import"
+      ? storedSource
+      : project.sitePlan && !/\.pdf($|\?)/i.test(project.sitePlan)
+      ? "sitePlan"
+      : "canvas"
+  );
+  const [controlPoints, setControlPoints] = useState<DraftControlPoint[]>(
+    storedSource === "import" ? [] : project.georeference?.controlPoints ?? []
+  );
+
+  const { data: plotsData, isLoading } = useAllPlotsByProject(project._id);
+  const bulkUpdatePlots = useBulkUpdatePlots();
+  const updateProject = useUpdateProject();
+  const plots = useMemo(() => plotsData ?? [], [plotsData]);
+
+  const shapes = useMemo(
+    () => getSourceShapes(plots, source, project),
+    [plots, source, project]
+  );
+
+  const completePairs = useMemo(
+    () =>
+      controlPoints.filter((cp): cp is Required<DraftControlPoint> =>
+        Boolean(cp.target)
+      ),
+    [controlPoints]
+  );
+  const transform = useMemo(() => fitAffine(completePairs), [completePairs]);
+
+  const residuals = useMemo(
+    () =>
+      transform
+        ? controlPoints.map((cp) =>
+            cp.target
+              ? distanceInMeters(applyAffine(transform, cp.source), cp.target)
+              : null
+          )
+        : [],
+    [transform, controlPoints]
+  );
+  const rmsError = useMemo(() => {
+    const values = residuals.filter((r): r is number => r !== null);
+    if (values.length === 0) return null;
+    return Math.sqrt(values.reduce((s, r) => s + r * r, 0) / values.length);
+  }, [residuals]);
+
+  const awaitingTarget =
+    controlPoints.length > 0 && !controlPoints[controlPoints.length - 1].target;
+
+  // Map click handler reads the latest state through a ref
+  const onMapClickRef = useRef<(lngLat: Point) => void>(() => {});
+  onMapClickRef.current = (lngLat) => {
+    if (!awaitingTarget) return;
+    setControlPoints((prev) =>
+      prev.map((cp, i) =>
+        i === prev.length - 1 ? { ...cp, target: lngLat } : cp
+      )
+    );
+  };
+
+  // Initialize Mapbox
+  useEffect(() => {
+    if (!mapContainerRef.current || mapRef.current) return;
+    mapboxgl.accessToken = process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN || "";
+
+    const map = new mapboxgl.Map({
+      container: mapContainerRef.current,
+      style: "mapbox://styles/mapbox/satellite-streets-v12",
+      center: project.location.coordinates,
+      zoom: 16,
+    });
+    map.addControl(new mapboxgl.NavigationControl(), "top-right");
+
+    map.on("load", () => {
+      map.addSource(PREVIEW_SOURCE_ID, {
+        type: "geojson",
+        data: { type: "FeatureCollection", features: [] },
+      });
+      map.addLayer({
+        id: `${PREVIEW_SOURCE_ID}-fill`,
+        type: "fill",
+        source: PREVIEW_SOURCE_ID,
+        paint: { "fill-color": ["get", "color"], "fill-opacity": 0.4 },
+      });
+      map.addLayer({
+        id: `${PREVIEW_SOURCE_ID}-line`,
+        type: "line",
+        source: PREVIEW_SOURCE_ID,
+        paint: { "line-color": "#ffffff", "line-width": 1 },
+      });
+      map.addLayer({
+        id: `${PREVIEW_SOURCE_ID}-label`,
+        type: "symbol",
+        source: PREVIEW_SOURCE_ID,
+        layout: { "text-field": ["get", "plotNumber"], "text-size": 11 },
+        paint: {
+          "text-color": "#ffffff",
+          "text-halo-color": "#000000",
+          "text-halo-width": 1,
+        },
+      });
+      setMapLoaded(true);
+      map.resize();
+    });
+
+    map.on("click", (e) => onMapClickRef.current([e.lngLat.lng, e.lngLat.lat]));
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Preview the current fit, or the stored outlines until one exists
+  const preview = useMemo(() => {
+    if (transform) return toFeatureCollection(shapes, transform);
+    if (!project.georeference) return toFeatureCollection([], null);
+    const stored = plots
+      .filter(
+        (plot) => getBoundarySpace(plot, project.georeference) === "lngLat"
+      )
+      .map((plot) => ({ plot, ring: getOuterRing(plot.boundaries) }))
+      .filter(({ ring }) => ring.length >= 3);
+    return toFeatureCollection(stored, IDENTITY);
+  }, [transform, shapes, plots, project.georeference]);
+
+  useEffect(() => {
+    if (!mapLoaded) return;
+    const layerSource = mapRef.current?.getSource(PREVIEW_SOURCE_ID) as
+      | mapboxgl.GeoJSONSource
+      | undefined;
+    layerSource?.setData(preview);
+  }, [mapLoaded, preview]);
+
+  // Numbered markers for pinned control points
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    markersRef.current.forEach((marker) => marker.remove());
+    markersRef.current = controlPoints.flatMap((cp, i) => {
+      if (!cp.target) return [];
+      const el = document.createElement("div");
+      el.className =
+        "h-6 w-6 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex items-center justify-center border-2 border-background";
+      el.textContent = String(i + 1);
+      const marker = new mapboxgl.Marker({ element: el, draggable: true })
+        .setLngLat(cp.target)
+        .addTo(map);
+      marker.on("dragend", () => {
+        const { lng, lat } = marker.getLngLat();
+        setControlPoints((prev) =>
+          prev.map((p, j) => (j === i ? { ...p, target: [lng, lat] } : p))
+        );
+      });
+      return [marker];
+    });
+  }, [controlPoints]);
+
+  const handleSourceClick = (e: React.MouseEvent) => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return;
+    const { x, y } = new DOMPoint(e.clientX, e.clientY).matrixTransform(
+      ctm.inverse()
+    );
+    const point: Point = [Math.round(x * 100) / 100, Math.round(y * 100) / 100];
+    setControlPoints((prev) =>
+      // Re-clicking before pinning on the map moves the pending point
+      awaitingTarget
+        ? prev.map((cp, i) => (i === prev.length - 1 ? { source: point } : cp))
+        : [...prev, { source: point }]
+    );
+  };
+
+  const handleSourceChange = (value: string) => {
+    setSource(value as ControlSource);
+    setControlPoints([]);
+  };
+
+  const handleApply = async () => {
+    if (!transform || shapes.length === 0) return;
+    const previous = project.georeference ?? null;
+    // Save the fit first so [lng, lat] outlines never sit on a project that
+    // has no georeference to read them against
+    try {
+      await updateProject.mutateAsync({
+        projectId: project._id,
+        data: { georeference: { source, controlPoints: completePairs } },
+      });
+    } catch {
+      // Error is handled by the mutation hook
+      return;
+    }
+    try {
+      await bulkUpdatePlots.mutateAsync({
+        projectId: project._id,
+        plots: shapes.map(({ plot, ring }) => ({
+          _id: plot._id,
+          boundaries: toPolygon(ring.map((p) => applyAffine(transform, p))),
+          boundarySpace: "lngLat",
+        })),
+      });
+    } catch {
+      // Outlines are still in their old space, so put the old fit back
+      updateProject.mutate({
+        projectId: project._id,
+        data: { georeference: previous },
+      });
+    }
+  };
+
+  const isApplying = bulkUpdatePlots.isPending || updateProject.isPending;
+  const canUseSitePlan =
+    !!project.sitePlan && !/\.pdf($|\?)/i.test(project.sitePlan);
+  const bounds =
+    source === "canvas" && shapes.length ? getBounds(shapes) : null;
+  const viewBox =
+    source === "sitePlan"
+      ? imageSize && `0 0 ${imageSize.width} ${imageSize.height}`
+      : bounds &&
+        `${bounds.minX} ${bounds.minY} ${bounds.width} ${bounds.height}`;
+  const unit =
+    source === "sitePlan"
+      ? (imageSize?.width ?? 800) / 800
+      : (bounds?.width ?? 800) / 800;
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Tabs value={source} onValueChange={handleSourceChange}>
+          <TabsList>
+            <TabsTrigger value="sitePlan" disabled={!canUseSitePlan}>
+              Site Plan
+            </TabsTrigger>
+            <TabsTrigger value="canvas">Layout Canvas</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <p className="text-sm text-muted-foreground flex-1">
+          {awaitingTarget
+            ? `Now click the same spot on the map to pin point ${controlPoints.length}.`
+            : `Click a recognisable spot on the left, then on the map. At least ${MIN_CONTROL_POINTS} points are needed.`}
+        </p>
+        {rmsError !== null && (
+          <Badge variant={rmsError > 5 ? "destructive" : "secondary"}>
+            RMS error {rmsError.toFixed(2)} m
+          </Badge>
+        )}
+        <Button
+          size="sm"
+          onClick={handleApply}
+          disabled={!transform || shapes.length === 0 || isApplying}
+        >
+          {isApplying ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <MapPinned className="mr-2 h-4 w-4" />
+          )}
+          Apply to {shapes.length} plots
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Source pane */}
+        <div className="h-[480px] overflow-auto rounded-md border bg-muted">
+          {shapes.length === 0 && source === "canvas" ? (
+            <div className="h-full flex items-center justify-center p-6 text-center text-sm text-muted-foreground">
+              No plots have been placed on the layout canvas yet.
+            </div>
+          ) : (
+            <div className="relative">
+              {source === "sitePlan" && project.sitePlan && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={project.sitePlan}
+                  alt="Site plan"
+                  className="block w-full select-none"
+                  draggable={false}
+                  onLoad={(e) =>
+                    setImageSize({
+                      width: e.currentTarget.naturalWidth,
+                      height: e.currentTarget.naturalHeight,
+                    })
+                  }
+                />
+              )}
+              {viewBox && (
+                <svg
+                  ref={svgRef}
+                  viewBox={viewBox}
+                  className={cn(
+                    "cursor-crosshair",
+                    source === "sitePlan"
+                      ? "absolute inset-0 h-full w-full"
+                      : "block w-full h-[478px]"
+                  )}
+                  onClick={handleSourceClick}
+                >
+                  {shapes.map(({ plot, ring }) => (
+                    <polygon
+                      key={plot._id}
+                      points={ring.map((p) => p.join(",")).join(" ")}
+                      fill={STATUS_COLORS[plot.status]}
+                      fillOpacity={0.3}
+                      stroke="#333"
+                      strokeWidth={unit}
+                    />
+                  ))}
+                  {controlPoints.map((cp, i) => (
+                    <g key={i}>
+                      <circle
+                        cx={cp.source[0]}
+                        cy={cp.source[1]}
+                        r={unit * 8}
+                        fill={cp.target ? "#4f46e5" : "#f97316"}
+                        stroke="#fff"
+                        strokeWidth={unit * 2}
+                      />
+                      <text
+                        x={cp.source[0]}
+                        y={cp.source[1]}
+                        fontSize={unit * 10}
+                        fill="#fff"
+                        textAnchor="middle"
+                        dominantBaseline="central"
+                        className="pointer-events-none select-none"
+                      >
+                        {i + 1}
+                      </text>
+                    </g>
+                  ))}
+                </svg>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Map pane */}
+        <div className="relative h-[480px] rounded-md border overflow-hidden">
+          <div
+            ref={mapContainerRef}
+            className={cn(
+              "w-full h-full bg-muted",
+              awaitingTarget && "[&_canvas]:!cursor-crosshair"
+            )}
+          />
+          {!mapLoaded && (
+            <div className="absolute inset-0 flex items-center justify-center bg-background/50 backdrop-blur-sm">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Control point list */}
+      {controlPoints.length > 0 && (
+        <div className="rounded-md border divide-y text-sm">
+          {controlPoints.map((cp, i) => (
+            <div key={i} className="flex items-center gap-4 px-3 py-2">
+              <span className="font-medium w-6">{i + 1}</span>
+              <span className="font-mono text-xs flex-1">
+                ({cp.source[0].toFixed(1)}, {cp.source[1].toFixed(1)}) →{" "}
+                {cp.target
+                  ? `${cp.target[1].toFixed(6)}, ${cp.target[0].toFixed(6)}`
+                  : "not pinned"}
+              </span>
+              {residuals[i] != null && (
+                <span className="text-xs text-muted-foreground">
+                  {residuals[i]!.toFixed(2)} m
+                </span>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() =>
+                  setControlPoints((prev) => prev.filter((_, j) => j !== i))
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlotGeoreferencer;
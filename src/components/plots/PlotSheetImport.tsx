@@ -0,0 +1,586 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Download, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  downloadSpreadsheet,
+  readSpreadsheet,
+  SheetData,
+} from "@/lib/spreadsheet";
+import { calculatePlotPrice } from "@/lib/pricing";
+import { useAllPlotsByProject, useBulkCreatePlots } from "@/hooks/usePlot";
+import { useBlocksByProject } from "@/hooks/useBlock";
+import { useProject } from "@/hooks/useProject";
+import {
+  AREA_UNITS,
+  createPlotSheetRowSchema,
+  FACING_OPTS,
+  PLOT_SHEET_FIELDS,
+  PlotSheetField,
+  PlotSheetRow,
+} from "@/schema/plot.schema";
+import { CreatePlotInput } from "@/types/project.types";
+
+const NOT_MAPPED = "__none__";
+
+const FIELD_LABELS: Record<PlotSheetField, string> = {
+  plotNumber: "Plot Number",
+  block: "Block",
+  area: "Area",
+  areaUnit: "Area Unit",
+  pricePerUnit: "Price / Unit",
+  price: "Total Price",
+  facing: "Facing",
+  plotType: "Plot Type",
+  frontRoadWidth: "Road Width",
+  length: "Length",
+  width: "Width",
+  dimensionUnit: "Dimension Unit",
+};
+
+const REQUIRED_FIELDS: PlotSheetField[] = ["plotNumber", "area"];
+
+// Header spellings recognised when guessing the column mapping
+const FIELD_ALIASES: Record<PlotSheetField, string[]> = {
+  plotNumber: ["plotnumber", "plotno", "plot", "number", "no"],
+  block: ["block", "blockname", "sector", "phase"],
+  area: ["area", "size", "plotarea"],
+  areaUnit: ["areaunit", "unit", "units"],
+  pricePerUnit: ["priceperunit", "rate", "ratepersqft", "persqft"],
+  price: ["price", "totalprice", "amount", "cost"],
+  facing: ["facing", "direction"],
+  plotType: ["plottype", "type", "category"],
+  frontRoadWidth: ["frontroadwidth", "roadwidth", "road"],
+  length: ["length", "depth"],
+  width: ["width", "breadth", "front"],
+  dimensionUnit: ["dimensionunit", "lengthunit"],
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const guessMapping = (headers: string[]) =>
+  Object.fromEntries(
+    PLOT_SHEET_FIELDS.map((field) => {
+      const index = headers.findIndex((h) =>
+        FIELD_ALIASES[field].includes(normalizeHeader(h))
+      );
+      return [field, index === -1 ? NOT_MAPPED : String(index)];
+    })
+  ) as Record<PlotSheetField, string>;
+
+const downloadTemplate = () =>
+  downloadSpreadsheet({
+    fileName: "plot-import-template",
+    format: "csv",
+    columns: PLOT_SHEET_FIELDS.map((f) => ({ header: FIELD_LABELS[f] })),
+    rows: [
+      [
+        "A-001",
+        "Block A",
+        "1200",
+        "SQ_FT",
+        "2500",
+        "",
+        "NORTH",
+        "REGULAR",
+        "30",
+        "40",
+        "30",
+        "FEET",
+      ],
+    ],
+  });
+
+interface PlotSheetImportProps {
+  projectId: string;
+  onImported?: () => void;
+}
+
+const PlotSheetImport = ({ projectId, onImported }: PlotSheetImportProps) => {
+  const [step, setStep] = useState<"upload" | "map" | "review">("upload");
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<Record<PlotSheetField, string>>(
+    guessMapping([])
+  );
+  const [rows, setRows] = useState<PlotSheetRow[]>([]);
+  const [defaultBlockId, setDefaultBlockId] = useState("");
+  const [defaultAreaUnit, setDefaultAreaUnit] = useState<string>("SQ_FT");
+  const [defaultFacing, setDefaultFacing] = useState<string>("NORTH");
+  const [onlyErrors, setOnlyErrors] = useState(false);
+
+  const { data: blocks } = useBlocksByProject(projectId);
+  const { data: plotsData } = useAllPlotsByProject(projectId);
+  const bulkCreatePlots = useBulkCreatePlots();
+  const { data: projectData } = useProject(projectId);
+  const pricingRules = useMemo(
+    () => projectData?.project.pricingRules ?? [],
+    [projectData]
+  );
+
+  const rowSchema = useMemo(
+    () =>
+      createPlotSheetRowSchema({
+        areaUnit: defaultAreaUnit,
+        facing: defaultFacing,
+      }),
+    [defaultAreaUnit, defaultFacing]
+  );
+
+  // Validates every row and resolves it to a plot, collecting cell errors
+  const validated = useMemo(() => {
+    const existing = new Set(
+      (plotsData ?? []).map((p) => p.plotNumber.trim().toUpperCase())
+    );
+    const counts = new Map<string, number>();
+    rows.forEach((row) => {
+      const key = row.plotNumber.trim().toUpperCase();
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+
+    return rows.map((row) => {
+      const errors: Partial<Record<PlotSheetField, string>> = {};
+      const result = rowSchema.safeParse(row);
+      if (!result.success) {
+        result.error.issues.forEach((issue) => {
+          const field = issue.path[0] as PlotSheetField;
+          errors[field] ??= issue.message;
+        });
+      }
+
+      const key = row.plotNumber.trim().toUpperCase();
+      if (key && existing.has(key)) {
+        errors.plotNumber = "Plot number already exists in this project";
+      } else if (key && (counts.get(key) ?? 0) > 1) {
+        errors.plotNumber = "Plot number is repeated in the sheet";
+      }
+
+      const blockName = row.block.trim().toLowerCase();
+      const blockId = blockName
+        ? blocks?.find((b) => b.name.trim().toLowerCase() === blockName)?._id
+        : defaultBlockId;
+      if (!blockId) {
+        errors.block = blockName
+          ? `No block named "${row.block.trim()}"`
+          : "Block is required";
+      }
+
+      if (!result.success || !blockId || Object.keys(errors).length > 0) {
+        return { row, errors };
+      }
+
+      const { data } = result;
+      // An explicit sheet price wins; otherwise the project's rules apply
+      const price =
+        data.price ??
+        calculatePlotPrice(
+          {
+            area: data.area,
+            pricePerUnit: data.pricePerUnit!,
+            plotType: data.plotType,
+            facing: data.facing,
+            frontRoadWidth: data.frontRoadWidth,
+          },
+          pricingRules
+        ).price;
+      const plot: Omit<CreatePlotInput, "projectId"> = {
+        blockId,
+        plotNumber: data.plotNumber,
+        area: data.area,
+        areaUnit: data.areaUnit,
+        price,
+        pricePerUnit:
+          data.pricePerUnit ?? Math.round((price / data.area) * 100) / 100,
+        facing: data.facing,
+        plotType: data.plotType,
+        frontRoadWidth: data.frontRoadWidth,
+        ...(data.length &&
+          data.width && {
+            dimensions: {
+              length: data.length,
+              width: data.width,
+              unit: data.dimensionUnit,
+            },
+          }),
+      };
+      return { row, errors, plot };
+    });
+  }, [rows, rowSchema, plotsData, blocks, defaultBlockId, pricingRules]);
+
+  const invalidCount = validated.filter((v) => !v.plot).length;
+  const visible = validated
+    .map((v, index) => ({ ...v, index }))
+    .filter((v) => !onlyErrors || !v.plot);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        toast.error("The sheet has no data rows");
+        return;
+      }
+      setSheet(data);
+      setFileName(file.name);
+      setMapping(guessMapping(data.headers));
+      setStep("map");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to read spreadsheet"
+      );
+    }
+  };
+
+  const applyMapping = () => {
+    if (!sheet) return;
+    setRows(
+      sheet.rows.map(
+        (cells) =>
+          Object.fromEntries(
+            PLOT_SHEET_FIELDS.map((field) => [
+              field,
+              mapping[field] === NOT_MAPPED
+                ? ""
+                : cells[Number(mapping[field])] ?? "",
+            ])
+          ) as PlotSheetRow
+      )
+    );
+    setOnlyErrors(false);
+    setStep("review");
+  };
+
+  const updateCell = (index: number, field: PlotSheetField, value: string) =>
+    setRows((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, [field]: value } : row))
+    );
+
+  const removeRow = (index: number) =>
+    setRows((prev) => prev.filter((_, i) => i !== index));
+
+  const removeInvalidRows = () =>
+    setRows(validated.filter((v) => v.plot).map((v) => v.row));
+
+  const handleImport = async () => {
+    const plots = validated.flatMap((v) => (v.plot ? [v.plot] : []));
+    if (plots.length === 0 || invalidCount > 0) return;
+    try {
+      await bulkCreatePlots.mutateAsync({ projectId, plots });
+      setStep("upload");
+      setSheet(null);
+      setFileName(null);
+      setRows([]);
+      onImported?.();
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  if (step === "upload") {
+    return (
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <Label>Inventory Sheet</Label>
+          <Input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={handleFileChange}
+            className="cursor-pointer"
+          />
+          <p className="text-sm text-muted-foreground">
+            Upload a CSV or Excel (.xlsx) sheet with one plot per row. The first
+            row must contain column headers.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Default Block</Label>
+            <Select value={defaultBlockId} onValueChange={setDefaultBlockId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select Block" />
+              </SelectTrigger>
+              <SelectContent>
+                {blocks?.map((block) => (
+                  <SelectItem key={block._id} value={block._id}>
+                    {block.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Default Area Unit</Label>
+            <Select value={defaultAreaUnit} onValueChange={setDefaultAreaUnit}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AREA_UNITS.map((unit) => (
+                  <SelectItem key={unit} value={unit}>
+                    {unit.replace("SQ_", "Sq. ")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Default Facing</Label>
+            <Select value={defaultFacing} onValueChange={setDefaultFacing}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FACING_OPTS.map((f) => (
+                  <SelectItem key={f} value={f}>
+                    {f.replace("_", " ")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Defaults are used for rows that leave the block, area unit or facing
+          blank.
+        </p>
+
+        <Button type="button" variant="outline" onClick={downloadTemplate}>
+          <Download size={16} className="mr-2" />
+          Download Template
+        </Button>
+      </div>
+    );
+  }
+
+  if (step === "map" && sheet) {
+    const missingRequired = REQUIRED_FIELDS.filter(
+      (field) => mapping[field] === NOT_MAPPED
+    );
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            {fileName}: {sheet.rows.length} rows. Match each plot field to a
+            column in the sheet.
+          </p>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setStep("upload")}
+          >
+            <ArrowLeft size={16} className="mr-2" />
+            Back
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {PLOT_SHEET_FIELDS.map((field) => (
+            <div key={field} className="space-y-2">
+              <Label>
+                {FIELD_LABELS[field]}
+                {REQUIRED_FIELDS.includes(field) && " *"}
+              </Label>
+              <Select
+                value={mapping[field]}
+                onValueChange={(value) =>
+                  setMapping((prev) => ({ ...prev, [field]: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED}>Not in sheet</SelectItem>
+                  {sheet.headers.map((header, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {header}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        {missingRequired.length > 0 && (
+          <div className="bg-destructive/10 text-destructive p-4 rounded-md text-sm">
+            Map a column for{" "}
+            {missingRequired.map((f) => FIELD_LABELS[f]).join(" and ")} to
+            continue.
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            onClick={applyMapping}
+            disabled={missingRequired.length > 0}
+          >
+            Review Rows
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{rows.length} rows</Badge>
+          {invalidCount > 0 ? (
+            <Badge variant="destructive">{invalidCount} with errors</Badge>
+          ) : (
+            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+              All rows valid
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="only-errors"
+              checked={onlyErrors}
+              onCheckedChange={(checked) => setOnlyErrors(checked === true)}
+            />
+            <Label htmlFor="only-errors">Only rows with errors</Label>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setStep("map")}
+          >
+            <ArrowLeft size={16} className="mr-2" />
+            Mapping
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-md overflow-x-auto max-h-[45vh]">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">#</TableHead>
+              {PLOT_SHEET_FIELDS.map((field) => (
+                <TableHead key={field} className="min-w-28">
+                  {FIELD_LABELS[field]}
+                </TableHead>
+              ))}
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={PLOT_SHEET_FIELDS.length + 2}
+                  className="h-24 text-center"
+                >
+                  No rows to show.
+                </TableCell>
+              </TableRow>
+            ) : (
+              visible.map(({ row, errors, index }) => (
+                <TableRow key={index}>
+                  <TableCell className="text-muted-foreground">
+                    {index + 1}
+                  </TableCell>
+                  {PLOT_SHEET_FIELDS.map((field) => (
+                    <TableCell key={field} className="p-1">
+                      <Input
+                        value={row[field]}
+                        title={errors[field]}
+                        onChange={(e) =>
+                          updateCell(index, field, e.target.value)
+                        }
+                        className={cn(
+                          "h-8",
+                          errors[field] &&
+                            "border-destructive focus-visible:ring-destructive"
+                        )}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell className="p-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeRow(index)}
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {invalidCount > 0 && (
+        <div className="bg-destructive/10 text-destructive p-4 rounded-md text-sm space-y-1 max-h-40 overflow-y-auto">
+          {validated.map(({ errors }, index) =>
+            Object.entries(errors).map(([field, message]) => (
+              <p key={`${index}-${field}`}>
+                Row {index + 1}, {FIELD_LABELS[field as PlotSheetField]}:{" "}
+                {message}
+              </p>
+            ))
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2">
+        {invalidCount > 0 && (
+          <Button type="button" variant="outline" onClick={removeInvalidRows}>
+            Remove {invalidCount} Invalid Rows
+          </Button>
+        )}
+        <Button
+          type="button"
+          onClick={handleImport}
+          disabled={
+            bulkCreatePlots.isPending ||
+            // Duplicates are only caught once every existing plot has loaded
+            !plotsData ||
+            invalidCount > 0 ||
+            rows.length === 0
+          }
+        >
+          {bulkCreatePlots.isPending && (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          )}
+          Create {rows.length} Plots
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PlotSheetImport;
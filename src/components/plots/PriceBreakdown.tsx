@@ -0,0 +1,44 @@
+import React from "react";
+import { PriceBreakdown as PriceBreakdownData } from "@/lib/pricing";
+
+const formatPrice = (value: number) =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(value);
+
+interface PriceBreakdownProps {
+  breakdown: PriceBreakdownData;
+  label?: string;
+}
+
+const PriceBreakdown = ({
+  breakdown,
+  label = "Price breakdown",
+}: PriceBreakdownProps) => (
+  <div className="p-4 border rounded-md bg-muted/20 space-y-2 text-sm">
+    <h4 className="font-semibold">{label}</h4>
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">Base price (area × rate)</span>
+      <span>{formatPrice(breakdown.basePrice)}</span>
+    </div>
+    {breakdown.charges.map((charge, i) => (
+      <div key={i} className="flex justify-between">
+        <span className="text-muted-foreground">{charge.name}</span>
+        <span>+ {formatPrice(charge.amount)}</span>
+      </div>
+    ))}
+    {breakdown.charges.length === 0 && (
+      <p className="text-xs text-muted-foreground">
+        No location charges apply to this plot.
+      </p>
+    )}
+    <div className="flex justify-between border-t pt-2 font-semibold">
+      <span>Total</span>
+      <span>{formatPrice(breakdown.price)}</span>
+    </div>
+  </div>
+);
+
+export default PriceBreakdown;
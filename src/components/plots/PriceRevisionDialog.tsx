@@ -0,0 +1,621 @@
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, Loader2, TrendingUp, Undo2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAllPlotsByProject, useBulkUpdatePlots } from "@/hooks/usePlot";
+import { useBlocksByProject } from "@/hooks/useBlock";
+import { revisePlotPrices } from "@/lib/pricing";
+import {
+  useCreatePriceRevision,
+  usePriceRevisions,
+  useRollbackPriceRevision,
+} from "@/hooks/usePriceRevisions";
+import {
+  FACING_OPTS,
+  PLOT_STATUSES,
+  PLOT_TYPES,
+  priceRevisionSchema,
+  PriceRevisionFormValues,
+} from "@/schema/plot.schema";
+import { Block, PriceRevision, Project } from "@/types/project.types";
+
+const formatPrice = (value: number) =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(value);
+
+const formatChange = (value: number) =>
+  `${value >= 0 ? "+" : "-"}${formatPrice(Math.abs(value))}`;
+
+const DEFAULT_VALUES: PriceRevisionFormValues = {
+  blockIds: [],
+  statuses: ["available"],
+  plotTypes: [],
+  facings: [],
+  changeType: "PERCENTAGE",
+  amount: 0,
+};
+
+// Short summary of a revision for the history list, e.g.
+// "+5% on available CORNER plots in Block A"
+const describeRevision = (values: PriceRevisionFormValues, blocks: Block[]) => {
+  const change =
+    values.changeType === "PERCENTAGE"
+      ? `${values.amount > 0 ? "+" : ""}${values.amount}%`
+      : `${formatChange(values.amount)}/unit`;
+  const blockNames = values.blockIds
+    .map((id) => blocks.find((b) => b._id === id)?.name)
+    .filter(Boolean);
+  return [
+    change,
+    "on",
+    values.statuses.join("/") || "all",
+    [...values.plotTypes, ...values.facings.map((f) => f.replace("_", " "))]
+      .join(", ")
+      .trim(),
+    "plots",
+    blockNames.length ? `in ${blockNames.join(", ")}` : "in all blocks",
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+interface PriceRevisionDialogProps {
+  project: Project;
+}
+
+const PriceRevisionDialog = ({ project }: PriceRevisionDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState("revise");
+
+  const { data: blocks } = useBlocksByProject(project._id);
+  const { data: plots, isLoading: isPlotsLoading } = useAllPlotsByProject(
+    project._id,
+    {},
+    open
+  );
+  const bulkUpdatePlots = useBulkUpdatePlots();
+  const { data: revisions, isLoading: isRevisionsLoading } = usePriceRevisions(
+    project._id,
+    open
+  );
+  const createRevision = useCreatePriceRevision();
+  const rollbackRevision = useRollbackPriceRevision();
+  const projectRevisions = revisions ?? [];
+
+  const form = useForm<PriceRevisionFormValues>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(priceRevisionSchema) as any,
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  // The preview re-runs on every change; a revision is only applied as shown
+  const values = form.watch();
+  const parsed = priceRevisionSchema.safeParse(values);
+  const preview = parsed.success
+    ? revisePlotPrices(
+        plots ?? [],
+        parsed.data,
+        { type: parsed.data.changeType, amount: parsed.data.amount },
+        project.pricingRules
+      )
+    : [];
+
+  const totals = preview.reduce(
+    (sum, p) => ({
+      before: sum.before + p.before.price,
+      after: sum.after + p.after.price,
+    }),
+    { before: 0, after: 0 }
+  );
+  const blockName = (blockId: string) =>
+    blocks?.find((b) => b._id === blockId)?.name ?? "-";
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      form.reset(DEFAULT_VALUES);
+      setActiveTab("revise");
+    }
+  };
+
+  const onSubmit = async (data: PriceRevisionFormValues) => {
+    if (preview.length === 0) {
+      toast.error("No plots match this revision");
+      return;
+    }
+    try {
+      await createRevision.mutateAsync({
+        projectId: project._id,
+        description: describeRevision(data, blocks ?? []),
+        plots: preview,
+      });
+      form.reset(DEFAULT_VALUES);
+      setActiveTab("history");
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  // Only plots still carrying the revised price are restored, so later edits
+  // and plots booked since the revision are left alone
+  const handleRollback = async (revision: PriceRevision) => {
+    const current = new Map((plots ?? []).map((p) => [p._id, p]));
+    const restorable = revision.plots.filter((p) => {
+      const plot = current.get(p._id);
+      return (
+        plot &&
+        plot.status === p.status &&
+        plot.price === p.after.price &&
+        plot.pricePerUnit === p.after.pricePerUnit
+      );
+    });
+    const skipped = revision.plots.length - restorable.length;
+
+    try {
+      if (restorable.length > 0) {
+        await bulkUpdatePlots.mutateAsync({
+          projectId: project._id,
+          plots: restorable.map(({ _id, before }) => ({ _id, ...before })),
+        });
+      }
+      await rollbackRevision.mutateAsync(revision);
+      if (skipped > 0) {
+        toast.warning(
+          `${skipped} plots were skipped because they changed after the revision`
+        );
+      }
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  const isApplying = createRevision.isPending;
+  const toggleGroupClass = "flex-wrap justify-start";
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <TrendingUp size={16} className="mr-2" />
+          Revise Prices
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-5xl h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price Revision</DialogTitle>
+          <DialogDescription>
+            Change the price per unit of many plots at once. Totals are
+            re-priced with the project&apos;s pricing rules.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="revise">New Revision</TabsTrigger>
+            <TabsTrigger value="history">
+              History ({projectRevisions.length})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="revise" className="mt-4">
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit(onSubmit)}
+                className="space-y-6"
+              >
+                <div className="p-4 border rounded-md bg-muted/20 space-y-4">
+                  <h4 className="text-sm font-semibold">Target Plots</h4>
+                  <FormField
+                    control={form.control}
+                    name="blockIds"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Blocks</FormLabel>
+                        <FormControl>
+                          <ToggleGroup
+                            type="multiple"
+                            variant="outline"
+                            className={toggleGroupClass}
+                            value={field.value}
+                            onValueChange={field.onChange}
+                          >
+                            {blocks?.map((block) => (
+                              <ToggleGroupItem
+                                key={block._id}
+                                value={block._id}
+                                className="px-3"
+                              >
+                                {block.name}
+                              </ToggleGroupItem>
+                            ))}
+                          </ToggleGroup>
+                        </FormControl>
+                        <FormDescription>
+                          Leave a group unselected to include every option.
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="statuses"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Status</FormLabel>
+                        <FormControl>
+                          <ToggleGroup
+                            type="multiple"
+                            variant="outline"
+                            className={toggleGroupClass}
+                            value={field.value}
+                            onValueChange={field.onChange}
+                          >
+                            {PLOT_STATUSES.map((status) => (
+                              <ToggleGroupItem
+                                key={status}
+                                value={status}
+                                className="px-3 capitalize"
+                              >
+                                {status}
+                              </ToggleGroupItem>
+                            ))}
+                          </ToggleGroup>
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-1 md:grid-cols-[auto_1fr] gap-4">
+                    <FormField
+                      control={form.control}
+                      name="plotTypes"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Plot Type</FormLabel>
+                          <FormControl>
+                            <ToggleGroup
+                              type="multiple"
+                              variant="outline"
+                              className={toggleGroupClass}
+                              value={field.value}
+                              onValueChange={field.onChange}
+                            >
+                              {PLOT_TYPES.map((type) => (
+                                <ToggleGroupItem
+                                  key={type}
+                                  value={type}
+                                  className="px-3"
+                                >
+                                  {type}
+                                </ToggleGroupItem>
+                              ))}
+                            </ToggleGroup>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="facings"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Facing</FormLabel>
+                          <FormControl>
+                            <ToggleGroup
+                              type="multiple"
+                              variant="outline"
+                              className={toggleGroupClass}
+                              value={field.value}
+                              onValueChange={field.onChange}
+                            >
+                              {FACING_OPTS.map((f) => (
+                                <ToggleGroupItem
+                                  key={f}
+                                  value={f}
+                                  className="px-2 text-xs"
+                                >
+                                  {f.replace("_", " ")}
+                                </ToggleGroupItem>
+                              ))}
+                            </ToggleGroup>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="changeType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Change</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={field.onChange}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="PERCENTAGE">
+                              Percentage of price per unit
+                            </SelectItem>
+                            <SelectItem value="ABSOLUTE">
+                              ₹ added to price per unit
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="amount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {values.changeType === "PERCENTAGE"
+                            ? "Amount (%)"
+                            : "Amount (₹ / unit)"}
+                        </FormLabel>
+                        <FormControl>
+                          <Input type="number" step="any" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Use a negative amount to lower prices.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <h4 className="font-semibold">Preview</h4>
+                    {preview.length > 0 && (
+                      <span className="text-muted-foreground">
+                        {preview.length} plots, {formatPrice(totals.before)} →{" "}
+                        {formatPrice(totals.after)} (
+                        {formatChange(totals.after - totals.before)})
+                      </span>
+                    )}
+                  </div>
+                  <div className="border rounded-md max-h-72 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Plot No.</TableHead>
+                          <TableHead>Block</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead className="text-right">
+                            Price / Unit
+                          </TableHead>
+                          <TableHead className="text-right">Price</TableHead>
+                          <TableHead className="text-right">Change</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {isPlotsLoading ? (
+                          <TableRow>
+                            <TableCell colSpan={6} className="h-20 text-center">
+                              <Loader2 className="h-4 w-4 animate-spin inline" />
+                            </TableCell>
+                          </TableRow>
+                        ) : preview.length === 0 ? (
+                          <TableRow>
+                            <TableCell
+                              colSpan={6}
+                              className="h-20 text-center text-muted-foreground"
+                            >
+                              Choose the target plots and a change to see the
+                              new prices.
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          preview.map((plot) => (
+                            <TableRow key={plot._id}>
+                              <TableCell className="font-medium">
+                                {plot.plotNumber}
+                              </TableCell>
+                              <TableCell>{blockName(plot.blockId)}</TableCell>
+                              <TableCell className="capitalize">
+                                {plot.status}
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                <span className="text-muted-foreground line-through mr-2">
+                                  {plot.before.pricePerUnit.toLocaleString()}
+                                </span>
+                                {plot.after.pricePerUnit.toLocaleString()}
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                <span className="text-muted-foreground line-through mr-2">
+                                  {formatPrice(plot.before.price)}
+                                </span>
+                                {formatPrice(plot.after.price)}
+                              </TableCell>
+                              <TableCell
+                                className={cn(
+                                  "text-right whitespace-nowrap",
+                                  plot.after.price >= plot.before.price
+                                    ? "text-green-600"
+                                    : "text-destructive"
+                                )}
+                              >
+                                {formatChange(
+                                  plot.after.price - plot.before.price
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+
+                <DialogFooter>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setOpen(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={isApplying || preview.length === 0}
+                  >
+                    {isApplying && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Apply to {preview.length} Plots
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </TabsContent>
+
+          <TabsContent value="history" className="mt-4 space-y-3">
+            {isRevisionsLoading ? (
+              <div className="p-8 flex justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : projectRevisions.length === 0 ? (
+              <div className="p-8 border border-dashed rounded-md text-center text-sm text-muted-foreground">
+                <History className="h-6 w-6 mx-auto mb-2" />
+                No price revisions have been made for this project yet.
+              </div>
+            ) : (
+              projectRevisions.map((revision) => {
+                const delta = revision.plots.reduce(
+                  (sum, p) => sum + p.after.price - p.before.price,
+                  0
+                );
+                return (
+                  <div
+                    key={revision._id}
+                    className="p-4 border rounded-md flex flex-col sm:flex-row sm:items-center justify-between gap-4"
+                  >
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{revision.description}</p>
+                        {revision.rolledBackAt && (
+                          <Badge variant="secondary">Rolled back</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {format(new Date(revision.createdAt), "PPp")} ·{" "}
+                        {revision.plots.length} plots · {formatChange(delta)}
+                      </p>
+                    </div>
+                    {!revision.rolledBackAt && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={
+                              bulkUpdatePlots.isPending ||
+                              rollbackRevision.isPending ||
+                              !plots
+                            }
+                          >
+                            <Undo2 size={16} className="mr-2" />
+                            Roll Back
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>
+                              Roll back revision?
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This restores the previous price of{" "}
+                              {revision.plots.length} plots. Plots whose price
+                              or status changed since will be skipped.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleRollback(revision)}
+                            >
+                              Roll Back
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PriceRevisionDialog;
@@ -0,0 +1,410 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import {
+  Check,
+  Loader2,
+  Save,
+  Trash2,
+  Undo2,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import {
+  applyAffine,
+  getGeoreferenceTransform,
+  getRingInSpace,
+  Point,
+  toPolygon,
+} from "@/lib/geometry";
+import { useAllPlotsByProject, useBulkUpdatePlots } from "@/hooks/usePlot";
+import { Georeference, PlotStatus } from "@/types/project.types";
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+
+const STATUS_FILLS: Record<PlotStatus, string> = {
+  available: "rgba(34, 197, 94, 0.35)",
+  booked: "rgba(59, 130, 246, 0.35)",
+  reserved: "rgba(234, 179, 8, 0.35)",
+  sold: "rgba(239, 68, 68, 0.35)",
+};
+
+const isPdf = (url: string) => /\.pdf($|\?)/i.test(url);
+
+interface SitePlanTracerProps {
+  projectId: string;
+  sitePlanUrl?: string;
+  georeference?: Georeference;
+}
+
+const SitePlanTracer = ({
+  projectId,
+  sitePlanUrl,
+  georeference,
+}: SitePlanTracerProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [imageSize, setImageSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [activePlotId, setActivePlotId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Point[]>([]);
+  // Polygons traced since the last save, keyed by plot id
+  const [pending, setPending] = useState<Record<string, Point[]>>({});
+
+  const { data: plotsData, isLoading } = useAllPlotsByProject(projectId);
+  const bulkUpdatePlots = useBulkUpdatePlots();
+  const plots = useMemo(() => plotsData ?? [], [plotsData]);
+
+  // Once georeferenced from the site plan, outlines are saved as [lng, lat]
+  const toGeo = useMemo(
+    () =>
+      georeference?.source === "sitePlan"
+        ? getGeoreferenceTransform(georeference)
+        : null,
+    [georeference]
+  );
+
+  // Stored outlines projected onto the image; ones drawn in canvas units
+  // (DXF imports) have no place on the site plan and are left out
+  const imageRings = useMemo(
+    () =>
+      Object.fromEntries(
+        plots.map((plot) => [
+          plot._id,
+          getRingInSpace(plot, "sitePlan", georeference),
+        ])
+      ),
+    [plots, georeference]
+  );
+
+  const polygons = useMemo(
+    () =>
+      plots
+        .map((plot) => ({
+          plot,
+          points: pending[plot._id] ?? imageRings[plot._id],
+        }))
+        .filter(({ points }) => points.length >= 3),
+    [plots, pending, imageRings]
+  );
+
+  const activePlot = plots.find((p) => p._id === activePlotId);
+  const pendingCount = Object.keys(pending).length;
+  // Vertex handles and strokes stay the same size on screen at any zoom
+  const unit = imageSize ? imageSize.width / (800 * zoom) : 1;
+
+  const toImagePoint = (e: React.MouseEvent): Point | null => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(
+      ctm.inverse()
+    );
+    return [Math.round(point.x * 100) / 100, Math.round(point.y * 100) / 100];
+  };
+
+  const finishPolygon = () => {
+    if (!activePlotId || draft.length < 3) return;
+    setPending((prev) => ({ ...prev, [activePlotId]: draft }));
+    setDraft([]);
+    // Move on to the next plot that has no outline yet
+    const next = plots.find(
+      (p) =>
+        p._id !== activePlotId &&
+        !pending[p._id] &&
+        imageRings[p._id].length < 3
+    );
+    setActivePlotId(next?._id ?? null);
+  };
+
+  const handleCanvasClick = (e: React.MouseEvent) => {
+    if (!activePlotId) return;
+    const point = toImagePoint(e);
+    if (!point) return;
+    setDraft((prev) => [...prev, point]);
+  };
+
+  const handleSelectPlot = (plotId: string) => {
+    setActivePlotId(plotId);
+    setDraft([]);
+  };
+
+  const handleSave = async () => {
+    if (pendingCount === 0) return;
+    try {
+      await bulkUpdatePlots.mutateAsync({
+        projectId,
+        plots: Object.entries(pending).map(([_id, points]) => ({
+          _id,
+          boundaries: toPolygon(
+            toGeo ? points.map((p) => applyAffine(toGeo, p)) : points
+          ),
+          boundarySpace: toGeo ? "lngLat" : "sitePlan",
+        })),
+      });
+      setPending({});
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  if (!sitePlanUrl) {
+    return (
+      <div className="text-center py-10 bg-muted/20 rounded-lg border border-dashed">
+        <p className="text-muted-foreground">
+          This project has no site plan. Upload a site plan image to trace plot
+          outlines.
+        </p>
+      </div>
+    );
+  }
+
+  if (georeference && georeference.source !== "sitePlan") {
+    return (
+      <div className="text-center py-10 bg-muted/20 rounded-lg border border-dashed">
+        <p className="text-muted-foreground">
+          Plot outlines for this project are already in map coordinates from the
+          layout canvas or an imported survey file, so they cannot be traced
+          over the site plan.
+        </p>
+      </div>
+    );
+  }
+
+  if (isPdf(sitePlanUrl)) {
+    return (
+      <div className="text-center py-10 bg-muted/20 rounded-lg border border-dashed space-y-2">
+        <p className="text-muted-foreground">
+          The site plan is a PDF. Upload it as an image (PNG or JPG) to trace
+          plot outlines.
+        </p>
+        <a
+          href={sitePlanUrl}
+          target="_blank"
+          rel="noreferrer"
+          className="text-sm underline"
+        >
+          Open current site plan
+        </a>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-4">
+      {/* Plot list */}
+      <div className="rounded-md border bg-card">
+        <div className="p-3 border-b text-sm font-medium">
+          Plots ({polygons.length}/{plots.length} traced)
+        </div>
+        <ScrollArea className="h-[552px]">
+          <div className="p-2 space-y-1">
+            {plots.map((plot) => {
+              const traced =
+                !!pending[plot._id] || imageRings[plot._id].length >= 3;
+              return (
+                <button
+                  key={plot._id}
+                  type="button"
+                  onClick={() => handleSelectPlot(plot._id)}
+                  className={cn(
+                    "w-full flex items-center justify-between rounded px-2 py-1.5 text-sm hover:bg-muted",
+                    activePlotId === plot._id && "bg-muted font-medium"
+                  )}
+                >
+                  <span>{plot.plotNumber}</span>
+                  {pending[plot._id] ? (
+                    <Badge variant="secondary">unsaved</Badge>
+                  ) : traced ? (
+                    <Check className="h-4 w-4 text-green-600" />
+                  ) : null}
+                </button>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </div>
+
+      {/* Tracing surface */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="text-sm text-muted-foreground flex-1">
+            {activePlot
+              ? `Tracing plot ${activePlot.plotNumber}: click each corner, then Finish (${draft.length} points)`
+              : "Select a plot from the list to start tracing"}
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setDraft((prev) => prev.slice(0, -1))}
+            disabled={draft.length === 0}
+          >
+            <Undo2 className="mr-2 h-4 w-4" />
+            Undo Point
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={finishPolygon}
+            disabled={draft.length < 3}
+          >
+            <Check className="mr-2 h-4 w-4" />
+            Finish
+          </Button>
+          {activePlotId && pending[activePlotId] && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                setPending((prev) => {
+                  const next = { ...prev };
+                  delete next[activePlotId];
+                  return next;
+                })
+              }
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Clear
+            </Button>
+          )}
+          <Button
+            size="icon"
+            variant="outline"
+            className="h-8 w-8"
+            onClick={() => setZoom((z) => Math.max(MIN_ZOOM, z / 1.5))}
+            disabled={zoom <= MIN_ZOOM}
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="outline"
+            className="h-8 w-8"
+            onClick={() => setZoom((z) => Math.min(MAX_ZOOM, z * 1.5))}
+            disabled={zoom >= MAX_ZOOM}
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={pendingCount === 0 || bulkUpdatePlots.isPending}
+          >
+            {bulkUpdatePlots.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save {pendingCount > 0 ? `(${pendingCount})` : ""}
+          </Button>
+        </div>
+
+        <div className="h-[552px] overflow-auto rounded-md border bg-muted">
+          <div className="relative" style={{ width: `${zoom * 100}%` }}>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={sitePlanUrl}
+              alt="Site plan"
+              className="block w-full select-none"
+              draggable={false}
+              onLoad={(e) =>
+                setImageSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                })
+              }
+            />
+            {imageSize && (
+              <svg
+                ref={svgRef}
+                viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+                className={cn(
+                  "absolute inset-0 h-full w-full",
+                  activePlotId && "cursor-crosshair"
+                )}
+                onClick={handleCanvasClick}
+              >
+                {polygons.map(({ plot, points }) => (
+                  <g key={plot._id}>
+                    <polygon
+                      points={points.map((p) => p.join(",")).join(" ")}
+                      fill={STATUS_FILLS[plot.status]}
+                      stroke={activePlotId === plot._id ? "#000" : "#333"}
+                      strokeWidth={activePlotId === plot._id ? unit * 2 : unit}
+                      strokeDasharray={
+                        pending[plot._id]
+                          ? `${unit * 4} ${unit * 2}`
+                          : undefined
+                      }
+                      onClick={(e) => {
+                        if (activePlotId) return;
+                        e.stopPropagation();
+                        handleSelectPlot(plot._id);
+                      }}
+                    />
+                    <text
+                      x={
+                        points.reduce((sum, p) => sum + p[0], 0) / points.length
+                      }
+                      y={
+                        points.reduce((sum, p) => sum + p[1], 0) / points.length
+                      }
+                      fontSize={unit * 11}
+                      textAnchor="middle"
+                      dominantBaseline="middle"
+                      className="pointer-events-none select-none"
+                    >
+                      {plot.plotNumber}
+                    </text>
+                  </g>
+                ))}
+
+                {draft.length > 0 && (
+                  <g>
+                    <polyline
+                      points={draft.map((p) => p.join(",")).join(" ")}
+                      fill="rgba(99, 102, 241, 0.2)"
+                      stroke="#4f46e5"
+                      strokeWidth={unit * 2}
+                    />
+                    {draft.map(([x, y], i) => (
+                      <circle
+                        key={i}
+                        cx={x}
+                        cy={y}
+                        r={unit * 4}
+                        fill={i === 0 ? "#4f46e5" : "#fff"}
+                        stroke="#4f46e5"
+                        strokeWidth={unit}
+                        onClick={(e) => {
+                          // Clicking the first vertex closes the polygon
+                          if (i !== 0 || draft.length < 3) return;
+                          e.stopPropagation();
+                          finishPolygon();
+                        }}
+                      />
+                    ))}
+                  </g>
+                )}
+              </svg>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SitePlanTracer;
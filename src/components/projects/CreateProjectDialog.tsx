@@ -40,6 +40,7 @@ import {
 } from "@/hooks/useProject";
 import { toast } from "sonner";
 import { LocationPicker } from "@/components/ui/location-picker";
+import { setApiFormErrors } from "@/lib/apiErrors";
 
 interface CreateProjectDialogProps {
   children?: React.ReactNode;
@@ -124,7 +125,8 @@ const CreateProjectDialog = ({ children }: CreateProjectDialogProps) => {
       setSelectedImages([]);
       setSelectedSitePlan(null);
     } catch (error) {
-      console.error("Failed to create project:", error);
+      // The toast comes from the mutation hook
+      setApiFormErrors(form, error);
     }
   };
 
@@ -448,11 +450,11 @@ const CreateProjectDialog = ({ children }: CreateProjectDialogProps) => {
               />
 
               <div className="space-y-2">
-                <FormLabel>Project Site Plan (PDF)</FormLabel>
+                <FormLabel>Project Site Plan (Image or PDF)</FormLabel>
                 <div className="flex items-center gap-4">
                   <Input
                     type="file"
-                    accept=".pdf"
+                    accept="image/*,.pdf"
                     onChange={(e) => {
                       if (e.target.files && e.target.files[0]) {
                         setSelectedSitePlan(e.target.files[0]);
@@ -489,6 +491,12 @@ const CreateProjectDialog = ({ children }: CreateProjectDialogProps) => {
                 </div>
               </div>
 
+              {form.formState.errors.root && (
+                <div className="bg-destructive/10 text-destructive p-4 rounded-md text-sm">
+                  {form.formState.errors.root.message}
+                </div>
+              )}
+
               <div className="flex justify-end gap-2 pt-4">
                 <Button
                   type="button"
@@ -0,0 +1,402 @@
+import React, { useMemo, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Percent, Plus, Trash2 } from "lucide-react";
+import { useUpdateProject } from "@/hooks/useProject";
+import { useAllPlotsByProject, useBulkUpdatePlots } from "@/hooks/usePlot";
+import { calculatePlotPrice } from "@/lib/pricing";
+import {
+  pricingRuleSchema,
+  pricingRulesSchema,
+  PricingRulesFormValues,
+} from "@/schema/project.schema";
+import { FACING_OPTS, PLOT_TYPES } from "@/schema/plot.schema";
+import {
+  Plot,
+  PricingRule,
+  PricingRuleCriterion,
+  Project,
+} from "@/types/project.types";
+
+const CRITERION_LABELS: Record<PricingRuleCriterion, string> = {
+  plotType: "Plot type",
+  facing: "Facing",
+  frontRoadWidth: "Front road width",
+};
+
+const EMPTY_RULE: PricingRule = {
+  name: "",
+  criterion: "plotType",
+  values: [],
+  chargeType: "PERCENTAGE",
+  amount: 0,
+};
+
+// Available plots whose stored price differs from what the rules give
+const getRepricedPlots = (plots: Plot[], rules: PricingRule[]) =>
+  plots
+    .map((plot) => ({
+      plot,
+      price: calculatePlotPrice(plot, rules).price,
+    }))
+    .filter(({ plot, price }) => price !== plot.price);
+
+interface PricingRulesDialogProps {
+  project: Project;
+}
+
+const PricingRulesDialog = ({ project }: PricingRulesDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const updateProject = useUpdateProject();
+  const bulkUpdatePlots = useBulkUpdatePlots();
+  // Booked and sold plots keep the price the customer agreed to
+  const { data: availablePlots, isLoading: isPlotsLoading } =
+    useAllPlotsByProject(project._id, { status: "available" }, open);
+
+  const form = useForm<PricingRulesFormValues>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(pricingRulesSchema) as any,
+    defaultValues: {
+      pricingRules: project.pricingRules ?? [],
+      repriceAvailable: true,
+    },
+  });
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "pricingRules",
+  });
+
+  const watchedRules = form.watch("pricingRules");
+  const repriceAvailable = form.watch("repriceAvailable");
+
+  // Incomplete rules are left out of the preview until they validate
+  const previewCount = useMemo(() => {
+    const rules = (watchedRules ?? []).flatMap((rule) => {
+      const result = pricingRuleSchema.safeParse(rule);
+      return result.success ? [result.data] : [];
+    });
+    return getRepricedPlots(availablePlots ?? [], rules).length;
+  }, [watchedRules, availablePlots]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      form.reset({
+        pricingRules: project.pricingRules ?? [],
+        repriceAvailable: true,
+      });
+    }
+  };
+
+  const onSubmit = async (data: PricingRulesFormValues) => {
+    try {
+      await updateProject.mutateAsync({
+        projectId: project._id,
+        data: { pricingRules: data.pricingRules },
+      });
+
+      const repriced = getRepricedPlots(
+        availablePlots ?? [],
+        data.pricingRules
+      );
+      if (data.repriceAvailable && repriced.length > 0) {
+        await bulkUpdatePlots.mutateAsync({
+          projectId: project._id,
+          plots: repriced.map(({ plot, price }) => ({ _id: plot._id, price })),
+        });
+      }
+      setOpen(false);
+    } catch {
+      // Error is handled by the mutation hook
+    }
+  };
+
+  const isSubmitting = updateProject.isPending || bulkUpdatePlots.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Percent size={16} className="mr-2" />
+          Pricing Rules
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pricing Rules</DialogTitle>
+          <DialogDescription>
+            Preferential location charges added on top of area × price per unit.
+            Each charge is worked out on the base price.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {fields.length === 0 && (
+              <div className="p-6 border border-dashed rounded-md text-center text-sm text-muted-foreground">
+                No pricing rules yet. Plots are priced at area × price per unit.
+              </div>
+            )}
+
+            {fields.map((item, index) => {
+              const criterion = watchedRules?.[index]?.criterion;
+              const chargeType = watchedRules?.[index]?.chargeType;
+              const options =
+                criterion === "plotType"
+                  ? PLOT_TYPES
+                  : criterion === "facing"
+                  ? FACING_OPTS
+                  : [];
+
+              return (
+                <div
+                  key={item.id}
+                  className="p-4 border rounded-md bg-muted/20 space-y-4"
+                >
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_180px_auto] gap-4 items-end">
+                    <FormField
+                      control={form.control}
+                      name={`pricingRules.${index}.name`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Name</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Corner PLC" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`pricingRules.${index}.criterion`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Applies to</FormLabel>
+                          <Select
+                            value={field.value}
+                            onValueChange={(val) => {
+                              field.onChange(val);
+                              form.setValue(`pricingRules.${index}.values`, []);
+                            }}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {Object.entries(CRITERION_LABELS).map(
+                                ([value, label]) => (
+                                  <SelectItem key={value} value={value}>
+                                    {label}
+                                  </SelectItem>
+                                )
+                              )}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(index)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+
+                  {criterion === "frontRoadWidth" ? (
+                    <FormField
+                      control={form.control}
+                      name={`pricingRules.${index}.minRoadWidth`}
+                      render={({ field }) => (
+                        <FormItem className="max-w-[240px]">
+                          <FormLabel>Road width at least (ft)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) =>
+                                field.onChange(e.target.value || undefined)
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ) : (
+                    <FormField
+                      control={form.control}
+                      name={`pricingRules.${index}.values`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Matching values</FormLabel>
+                          <FormControl>
+                            <ToggleGroup
+                              type="multiple"
+                              variant="outline"
+                              className="flex-wrap justify-start"
+                              value={field.value ?? []}
+                              onValueChange={field.onChange}
+                            >
+                              {options.map((option) => (
+                                <ToggleGroupItem
+                                  key={option}
+                                  value={option}
+                                  className="px-3"
+                                >
+                                  {option.replace("_", " ")}
+                                </ToggleGroupItem>
+                              ))}
+                            </ToggleGroup>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name={`pricingRules.${index}.chargeType`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Charge</FormLabel>
+                          <Select
+                            value={field.value}
+                            onValueChange={field.onChange}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="PERCENTAGE">
+                                % of base price
+                              </SelectItem>
+                              <SelectItem value="PER_UNIT">
+                                Flat ₹ per area unit
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`pricingRules.${index}.amount`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            {chargeType === "PER_UNIT"
+                              ? "Amount (₹ / unit)"
+                              : "Amount (%)"}
+                          </FormLabel>
+                          <FormControl>
+                            <Input type="number" step="any" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append({ ...EMPTY_RULE })}
+            >
+              <Plus size={16} className="mr-2" />
+              Add Rule
+            </Button>
+
+            <div className="flex items-start gap-2 pt-2">
+              <Checkbox
+                id="reprice-available"
+                checked={repriceAvailable}
+                onCheckedChange={(checked) =>
+                  form.setValue("repriceAvailable", checked === true)
+                }
+              />
+              <div className="grid gap-1">
+                <Label htmlFor="reprice-available">
+                  Re-price available plots
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  {isPlotsLoading
+                    ? "Checking available plots..."
+                    : `${previewCount} of ${
+                        availablePlots?.length ?? 0
+                      } available plots will change price. Booked and sold plots are not touched.`}
+                </p>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting || (repriceAvailable && isPlotsLoading)}
+              >
+                {isSubmitting && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Save Rules
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PricingRulesDialog;
@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { FileText, X } from "lucide-react";
+
+// Display name for an uploaded file, without the folder and upload timestamp
+const getFileName = (url: string) => {
+  const path = decodeURIComponent(url.split("?")[0]).split("/").pop() ?? url;
+  return path.replace(/^\d+_/, "");
+};
+
+const isImageFile = (name: string) => /\.(png|jpe?g|webp|gif|svg)$/i.test(name);
+
+interface ProjectFilesFieldProps {
+  label: string;
+  accept: string;
+  multiple?: boolean;
+  urls: string[];
+  onUrlsChange: (urls: string[]) => void;
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+}
+
+// Lists a project's uploaded files next to newly picked ones. Removing an
+// uploaded file only detaches it from the project; new files are uploaded on
+// save by the parent
+const ProjectFilesField = ({
+  label,
+  accept,
+  multiple = false,
+  urls,
+  onUrlsChange,
+  files,
+  onFilesChange,
+}: ProjectFilesFieldProps) => {
+  const previews = useMemo(
+    () =>
+      files.map((file) =>
+        file.type.startsWith("image/") ? URL.createObjectURL(file) : null
+      ),
+    [files]
+  );
+
+  useEffect(
+    () => () => {
+      previews.forEach((url) => url && URL.revokeObjectURL(url));
+    },
+    [previews]
+  );
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    if (selected.length === 0) return;
+    if (multiple) {
+      onFilesChange([...files, ...selected]);
+    } else {
+      // A single-file field replaces whatever it held before
+      onUrlsChange([]);
+      onFilesChange(selected.slice(0, 1));
+    }
+    e.target.value = "";
+  };
+
+  const items = [
+    ...urls.map((url) => ({
+      key: url,
+      name: getFileName(url),
+      href: url,
+      preview: isImageFile(getFileName(url)) ? url : null,
+      isNew: false,
+      onRemove: () => onUrlsChange(urls.filter((u) => u !== url)),
+    })),
+    ...files.map((file, i) => ({
+      key: `${file.name}-${i}`,
+      name: file.name,
+      href: undefined,
+      preview: previews[i],
+      isNew: true,
+      onRemove: () => onFilesChange(files.filter((_, j) => j !== i)),
+    })),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm font-medium">{label}</p>
+        <Input
+          type="file"
+          accept={accept}
+          multiple={multiple}
+          onChange={handleSelect}
+          className="cursor-pointer max-w-xs"
+        />
+      </div>
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No files added.</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+          {items.map((item) => (
+            <div
+              key={item.key}
+              className="relative border rounded-md overflow-hidden group"
+            >
+              {item.preview ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={item.preview}
+                  alt={item.name}
+                  className="h-28 w-full object-cover"
+                />
+              ) : (
+                <div className="h-28 flex items-center justify-center bg-muted">
+                  <FileText className="h-8 w-8 text-muted-foreground" />
+                </div>
+              )}
+              <div className="p-2 flex items-center gap-2 text-xs">
+                {item.href ? (
+                  <a
+                    href={item.href}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="truncate hover:underline"
+                  >
+                    {item.name}
+                  </a>
+                ) : (
+                  <span className="truncate">{item.name}</span>
+                )}
+                {item.isNew && (
+                  <Badge variant="secondary" className="ml-auto shrink-0">
+                    New
+                  </Badge>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="destructive"
+                size="icon"
+                className="absolute top-1 right-1 h-6 w-6"
+                onClick={item.onRemove}
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove {item.name}</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectFilesField;
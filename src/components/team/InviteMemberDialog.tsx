@@ -0,0 +1,159 @@
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, UserPlus } from "lucide-react";
+import { useInviteTeamMember } from "@/hooks/useTeam";
+import { setApiFormErrors } from "@/lib/apiErrors";
+import {
+  INVITABLE_ROLES,
+  inviteMemberSchema,
+  InviteMemberFormValues,
+  ROLE_DESCRIPTIONS,
+  TEAM_ROLE_LABELS,
+} from "@/schema/team.schema";
+
+const InviteMemberDialog = () => {
+  const [open, setOpen] = useState(false);
+  const inviteMember = useInviteTeamMember();
+
+  const form = useForm<InviteMemberFormValues>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(inviteMemberSchema) as any,
+    defaultValues: {
+      email: "",
+      role: "sales",
+    },
+  });
+
+  const role = form.watch("role");
+
+  const onSubmit = async (data: InviteMemberFormValues) => {
+    try {
+      await inviteMember.mutateAsync(data);
+      setOpen(false);
+      form.reset();
+    } catch (error) {
+      // The toast comes from the mutation hook
+      setApiFormErrors(form, error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm">
+          <UserPlus size={16} className="mr-2" />
+          Invite Member
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Invite Team Member</DialogTitle>
+          <DialogDescription>
+            They will get an email with a link to set up their login.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="email"
+                      placeholder="name@company.com"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select role" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {INVITABLE_ROLES.map((r) => (
+                        <SelectItem key={r} value={r}>
+                          {TEAM_ROLE_LABELS[r]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {role && (
+                    <FormDescription>{ROLE_DESCRIPTIONS[role]}</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {form.formState.errors.root && (
+              <div className="bg-destructive/10 text-destructive p-4 rounded-md text-sm">
+                {form.formState.errors.root.message}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={inviteMember.isPending}>
+                {inviteMember.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Send Invite
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InviteMemberDialog;
@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import useAxios, { ApiResponse } from "./useAxios";
+import { fetchAllPlotsByProject } from "./usePlot";
+import { Plot, Project, ProjectsResponse } from "@/types/project.types";
+import { Booking, BookingsResponse } from "@/types/booking.types";
+import { parseApiList, parseApiResponse } from "@/lib/apiValidation";
+import {
+  bookingResponseSchema,
+  bookingsResponseSchema,
+  projectResponseSchema,
+  projectsResponseSchema,
+} from "@/schema/api.schema";
+
+const PAGE_SIZE = 100;
+const BOOKINGS_SOURCE = "GET /developers/bookings/all";
+
+export const ANALYTICS_QUERY_KEYS = {
+  all: ["analytics"] as const,
+  sales: () => [...ANALYTICS_QUERY_KEYS.all, "sales"] as const,
+};
+
+export interface SalesAnalyticsData {
+  projects: Project[];
+  bookings: Booking[];
+  plots: Plot[];
+}
+
+// Loads every project, booking and plot so charts can cover all projects
+export const useSalesAnalyticsData = () => {
+  const api = useAxios();
+
+  return useQuery({
+    queryKey: ANALYTICS_QUERY_KEYS.sales(),
+    queryFn: async ({ signal }): Promise<SalesAnalyticsData> => {
+      const projects: Project[] = [];
+      for (let page = 1; ; page++) {
+        const response = await api.get<ApiResponse<ProjectsResponse>>(
+          `/projects?page=${page}&limit=${PAGE_SIZE}`,
+          { signal }
+        );
+        const { projects: pageProjects, pagination } = parseApiResponse(
+          projectsResponseSchema,
+          response.data.data,
+          "GET /projects"
+        );
+        projects.push(
+          ...parseApiList(projectResponseSchema, pageProjects, "GET /projects")
+        );
+        if (page >= pagination.totalPages || pageProjects.length === 0) break;
+      }
+
+      const bookings: Booking[] = [];
+      for (let page = 1; ; page++) {
+        const response = await api.get<ApiResponse<BookingsResponse>>(
+          `/developers/bookings/all?page=${page}&limit=${PAGE_SIZE}`,
+          { signal }
+        );
+        const { bookings: pageBookings, pagination } = parseApiResponse(
+          bookingsResponseSchema,
+          response.data.data,
+          BOOKINGS_SOURCE
+        );
+        bookings.push(
+          ...parseApiList(bookingResponseSchema, pageBookings, BOOKINGS_SOURCE)
+        );
+        if (page >= pagination.totalPages || pageBookings.length === 0) break;
+      }
+
+      const plots = (
+        await Promise.all(
+          projects.map((project) =>
+            fetchAllPlotsByProject(api, project._id, {}, signal)
+          )
+        )
+      ).flat();
+
+      return { projects, bookings, plots };
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
@@ -1,56 +1,35 @@
-import axios from "axios";
-import { toast } from "sonner";
-import { useRouter } from "next/navigation";
-import { useAuthStore } from "@/stores/authStore";
-const useAxios = () => {
-  const router = useRouter();
-  const axiosInstance = axios.create({
-    baseURL: process.env.NEXT_PUBLIC_API_URL,
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
+import { apiClient } from "@/lib/apiClient";
 
-  axiosInstance.interceptors.response.use(
-    (response) => {
-      return response;
-    },
-    (error) => {
-      if (
-        error.response &&
-        (error.response.status === 401 || error.response.status === 403)
-      ) {
-        useAuthStore.getState().logout();
-        toast.error("Session expired, please login again");
-        router.push("/login");
-      }
-      return Promise.reject(error);
-    }
-  );
-  axiosInstance.interceptors.request.use(
-    (config) => {
-      const token = useAuthStore.getState().token;
-      if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
-      }
-      return config;
-    },
-    (error) => {
-      return Promise.reject(error);
-    }
-  );
-  return axiosInstance;
-};
+// Every hook shares the one client from lib/apiClient, so interceptors, the
+// token refresh queue and retries are set up once
+const useAxios = () => apiClient;
 export default useAxios;
 export interface ApiResponse<T> {
   status: number;
   success: boolean;
   data: T;
 }
+export interface ApiFieldError {
+  // Dot path of the rejected field, e.g. "address.pincode"
+  field: string;
+  message: string;
+  code?: string;
+}
+export interface ApiConflict {
+  field?: string;
+  value?: unknown;
+  // Id of the record that already holds the value
+  existingId?: string;
+}
+export interface ApiErrorBody {
+  message: string;
+  code?: string;
+  errors?: ApiFieldError[];
+  conflict?: ApiConflict;
+}
 export interface ApiError {
   response: {
-    data: {
-      message: string;
-    };
+    status?: number;
+    data: ApiErrorBody;
   };
 }
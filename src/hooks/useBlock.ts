@@ -6,18 +6,40 @@ import {
   CreateBlockInput,
   UpdateBlockInput,
 } from "@/types/project.types";
+import {
+  checkApiResponse,
+  parseApiList,
+  parseApiResponse,
+} from "@/lib/apiValidation";
+import { blockResponseSchema, blocksResponseSchema } from "@/schema/api.schema";
+
+// Blocks without an order (created before reordering existed) go last
+const sortBlocks = (blocks: Block[]) =>
+  [...blocks].sort(
+    (a, b) =>
+      (a.order ?? Infinity) - (b.order ?? Infinity) ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
 
 export const useBlocksByProject = (projectId: string | undefined) => {
   const axios = useAxios();
 
   return useQuery({
     queryKey: ["blocks", projectId],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!projectId) return [];
       const { data } = await axios.get<ApiResponse<Block[]>>(
-        `/projects/${projectId}/blocks`
+        `/projects/${projectId}/blocks`,
+        { signal }
+      );
+      const blocks = parseApiResponse(
+        blocksResponseSchema,
+        data.data,
+        "GET /projects/:id/blocks"
+      );
+      return sortBlocks(
+        parseApiList(blockResponseSchema, blocks, "GET /projects/:id/blocks")
       );
-      return data.data;
     },
     enabled: !!projectId,
   });
@@ -33,11 +55,15 @@ export const useCreateBlock = () => {
         "/projects/blocks",
         input
       );
-      return data.data;
+      return checkApiResponse(
+        blockResponseSchema,
+        data.data,
+        "POST /projects/blocks"
+      );
     },
-    onSuccess: (data) => {
+    onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({
-        queryKey: ["blocks", data.projectId],
+        queryKey: ["blocks", variables.projectId],
       });
       toast.success("Block created successfully");
     },
@@ -63,11 +89,15 @@ export const useUpdateBlock = () => {
         `/projects/blocks/${blockId}`,
         data
       );
-      return result.data;
+      return checkApiResponse(
+        blockResponseSchema,
+        result.data,
+        "PUT /projects/blocks/:id"
+      );
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({
-        queryKey: ["blocks", data.projectId],
+        queryKey: data ? ["blocks", data.projectId] : ["blocks"],
       });
       toast.success("Block updated successfully");
     },
@@ -103,3 +133,35 @@ export const useDeleteBlock = () => {
     },
   });
 };
+
+export const useReorderBlocks = () => {
+  const axios = useAxios();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ blocks }: { projectId: string; blocks: Block[] }) => {
+      // Every block is saved so a stale cached order can never skip one
+      await Promise.all(
+        blocks.map((block, order) =>
+          axios.put(`/projects/blocks/${block._id}`, { order })
+        )
+      );
+    },
+    onMutate: async ({ projectId, blocks }) => {
+      await queryClient.cancelQueries({ queryKey: ["blocks", projectId] });
+      const previous = queryClient.getQueryData<Block[]>(["blocks", projectId]);
+      queryClient.setQueryData<Block[]>(
+        ["blocks", projectId],
+        blocks.map((block, order) => ({ ...block, order }))
+      );
+      return { previous };
+    },
+    onError: (error: ApiError, { projectId }, context) => {
+      queryClient.setQueryData(["blocks", projectId], context?.previous);
+      toast.error(error.response?.data?.message || "Failed to reorder blocks");
+    },
+    onSettled: (_data, _error, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: ["blocks", projectId] });
+    },
+  });
+};
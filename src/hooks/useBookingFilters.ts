@@ -0,0 +1,96 @@
+import { useCallback, useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { endOfDay, isValid, parseISO, startOfDay } from "date-fns";
+import { BookingStatus, GetBookingsParams } from "@/types/booking.types";
+
+const BOOKING_STATUSES: BookingStatus[] = [
+  "pending",
+  "confirmed",
+  "cancelled",
+  "completed",
+];
+
+// Filter state as it appears in the URL; dates are yyyy-MM-dd
+export interface BookingFilters {
+  page: number;
+  status?: BookingStatus;
+  projectId?: string;
+  blockId?: string;
+  from?: string;
+  to?: string;
+}
+
+const parseDay = (value: string | null) =>
+  value && isValid(parseISO(value)) ? value : undefined;
+
+export const useBookingFilters = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = useMemo<BookingFilters>(() => {
+    const status = searchParams.get("status") as BookingStatus | null;
+    return {
+      page: Math.max(1, Number(searchParams.get("page")) || 1),
+      status: status && BOOKING_STATUSES.includes(status) ? status : undefined,
+      projectId: searchParams.get("projectId") || undefined,
+      blockId: searchParams.get("blockId") || undefined,
+      from: parseDay(searchParams.get("from")),
+      to: parseDay(searchParams.get("to")),
+    };
+  }, [searchParams]);
+
+  // Any filter change other than paging goes back to the first page
+  const setFilters = useCallback(
+    (patch: Partial<BookingFilters>) => {
+      const next: BookingFilters = {
+        ...filters,
+        page: 1,
+        ...patch,
+      };
+      // Blocks belong to a project, so a new project drops the block filter
+      if ("projectId" in patch && patch.projectId !== filters.projectId) {
+        next.blockId = undefined;
+      }
+
+      const params = new URLSearchParams();
+      if (next.page > 1) params.set("page", next.page.toString());
+      if (next.status) params.set("status", next.status);
+      if (next.projectId) params.set("projectId", next.projectId);
+      if (next.blockId) params.set("blockId", next.blockId);
+      if (next.from) params.set("from", next.from);
+      if (next.to) params.set("to", next.to);
+
+      const queryString = params.toString();
+      router.replace(`${pathname}${queryString ? `?${queryString}` : ""}`, {
+        scroll: false,
+      });
+    },
+    [filters, pathname, router]
+  );
+
+  const clearFilters = useCallback(
+    () => router.replace(pathname, { scroll: false }),
+    [pathname, router]
+  );
+
+  return { filters, setFilters, clearFilters };
+};
+
+// Maps URL filters onto the bookings API, with inclusive whole-day bounds
+export const toBookingsParams = (
+  filters: BookingFilters,
+  limit: number
+): GetBookingsParams => ({
+  page: filters.page,
+  limit,
+  bookingStatus: filters.status,
+  projectId: filters.projectId,
+  blockId: filters.blockId,
+  startDate: filters.from
+    ? startOfDay(parseISO(filters.from)).toISOString()
+    : undefined,
+  endDate: filters.to
+    ? endOfDay(parseISO(filters.to)).toISOString()
+    : undefined,
+});
@@ -1,11 +1,30 @@
-import { useQuery } from "@tanstack/react-query";
-import useAxios, { ApiResponse } from "./useAxios";
-import { BookingsResponse, GetBookingsParams } from "@/types/booking.types";
+import {
+  QueryClient,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import useAxios, { ApiError, ApiResponse } from "./useAxios";
+import { toast } from "sonner";
+import { ANALYTICS_QUERY_KEYS } from "./useAnalytics";
+import { PLOT_QUERY_KEYS } from "./usePlot";
+import { PROJECT_QUERY_KEYS } from "./useProject";
+import {
+  Booking,
+  BookingsResponse,
+  GetBookingsParams,
+} from "@/types/booking.types";
+import { parseApiList, parseApiResponse } from "@/lib/apiValidation";
+import {
+  bookingResponseSchema,
+  bookingsResponseSchema,
+} from "@/schema/api.schema";
 
 export const BOOKING_QUERY_KEYS = {
   all: ["bookings"] as const,
   list: (params: GetBookingsParams) =>
     [...BOOKING_QUERY_KEYS.all, "list", params] as const,
+  detail: (id: string) => [...BOOKING_QUERY_KEYS.all, "detail", id] as const,
 };
 
 export const useGetBookings = (params: GetBookingsParams = {}) => {
@@ -13,7 +32,7 @@ export const useGetBookings = (params: GetBookingsParams = {}) => {
 
   return useQuery({
     queryKey: BOOKING_QUERY_KEYS.list(params),
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       const searchParams = new URLSearchParams();
       if (params.page) searchParams.set("page", params.page.toString());
       if (params.limit) searchParams.set("limit", params.limit.toString());
@@ -29,8 +48,134 @@ export const useGetBookings = (params: GetBookingsParams = {}) => {
         queryString ? `?${queryString}` : ""
       }`;
 
-      const response = await api.get<ApiResponse<BookingsResponse>>(url);
+      const response = await api.get<ApiResponse<BookingsResponse>>(url, {
+        signal,
+      });
+      const { bookings, pagination } = parseApiResponse(
+        bookingsResponseSchema,
+        response.data.data,
+        "GET /developers/bookings/all"
+      );
+      return {
+        bookings: parseApiList(
+          bookingResponseSchema,
+          bookings,
+          "GET /developers/bookings/all"
+        ),
+        pagination,
+      };
+    },
+  });
+};
+
+export const useGetBooking = (bookingId: string) => {
+  const api = useAxios();
+
+  return useQuery({
+    queryKey: BOOKING_QUERY_KEYS.detail(bookingId),
+    queryFn: async ({ signal }) => {
+      const response = await api.get<ApiResponse<Booking>>(
+        `/developers/bookings/${bookingId}`,
+        { signal }
+      );
+      return parseApiResponse(
+        bookingResponseSchema,
+        response.data.data,
+        "GET /developers/bookings/:id"
+      );
+    },
+    enabled: !!bookingId,
+  });
+};
+
+// Identifies a booking together with the plot and project it changes
+export interface BookingActionInput {
+  bookingId: string;
+  plotId: string;
+  projectId: string;
+}
+
+// A lifecycle change also moves the plot's status, the project's plotStats
+// and the sales analytics
+const invalidateBookingQueries = (
+  queryClient: QueryClient,
+  { plotId, projectId }: BookingActionInput
+) => {
+  queryClient.invalidateQueries({ queryKey: BOOKING_QUERY_KEYS.all });
+  queryClient.invalidateQueries({ queryKey: PLOT_QUERY_KEYS.detail(plotId) });
+  queryClient.invalidateQueries({ queryKey: PLOT_QUERY_KEYS.lists() });
+  queryClient.invalidateQueries({
+    queryKey: PROJECT_QUERY_KEYS.detail(projectId),
+  });
+  queryClient.invalidateQueries({ queryKey: PROJECT_QUERY_KEYS.lists() });
+  queryClient.invalidateQueries({ queryKey: ANALYTICS_QUERY_KEYS.all });
+};
+
+export const useConfirmBooking = () => {
+  const api = useAxios();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bookingId }: BookingActionInput) => {
+      const response = await api.patch<ApiResponse<Booking>>(
+        `/developers/bookings/${bookingId}/confirm`
+      );
       return response.data.data;
     },
+    onSuccess: (_, variables) => {
+      invalidateBookingQueries(queryClient, variables);
+      toast.success("Booking confirmed");
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.message || "Failed to confirm booking");
+    },
+  });
+};
+
+export const useCancelBooking = () => {
+  const api = useAxios();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      bookingId,
+      cancelledReason,
+    }: BookingActionInput & { cancelledReason: string }) => {
+      const response = await api.patch<ApiResponse<Booking>>(
+        `/developers/bookings/${bookingId}/cancel`,
+        { cancelledReason }
+      );
+      return response.data.data;
+    },
+    onSuccess: (_, variables) => {
+      invalidateBookingQueries(queryClient, variables);
+      toast.success("Booking cancelled");
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.message || "Failed to cancel booking");
+    },
+  });
+};
+
+export const useCompleteBooking = () => {
+  const api = useAxios();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bookingId }: BookingActionInput) => {
+      const response = await api.patch<ApiResponse<Booking>>(
+        `/developers/bookings/${bookingId}/complete`
+      );
+      return response.data.data;
+    },
+    onSuccess: (_, variables) => {
+      invalidateBookingQueries(queryClient, variables);
+      toast.success("Booking marked as completed");
+    },
+    onError: (error: ApiError) => {
+      toast.error(
+        error.response?.data?.message || "Failed to complete booking"
+      );
+    },
   });
 };
@@ -0,0 +1,14 @@
+import { useCallback } from "react";
+import { useAuthStore } from "@/stores/authStore";
+import { hasPermission, Permission } from "@/lib/permissions";
+
+// Accounts from before teams existed have no role and own their projects,
+// as does a developer persisted before roles were stored
+export const usePermissions = () => {
+  const role = useAuthStore((state) => state.developer?.role ?? "owner");
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission),
+    [role]
+  );
+  return { role, can };
+};
@@ -1,4 +1,10 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  QueryClient,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { AxiosInstance } from "axios";
 import useAxios, { ApiResponse, ApiError } from "./useAxios";
 import { toast } from "sonner";
 import {
@@ -12,8 +18,19 @@ import {
   UpdatePlotStatusInput,
   BulkCreatePlotsResponse,
   BulkUpdatePlotsResponse,
+  BulkPlotOperation,
+  BulkPlotResult,
+  PlotStatus,
+  ProjectWithStats,
 } from "@/types/project.types";
+import { ANALYTICS_QUERY_KEYS } from "./useAnalytics";
 import { PROJECT_QUERY_KEYS } from "./useProject";
+import {
+  checkApiResponse,
+  parseApiList,
+  parseApiResponse,
+} from "@/lib/apiValidation";
+import { plotResponseSchema, plotsResponseSchema } from "@/schema/api.schema";
 
 export const PLOT_QUERY_KEYS = {
   all: ["plots"] as const,
@@ -24,6 +41,24 @@ export const PLOT_QUERY_KEYS = {
   detail: (id: string) => [...PLOT_QUERY_KEYS.details(), id] as const,
 };
 
+const getPlotsByProjectUrl = (
+  projectId: string,
+  params: GetPlotsByProjectParams
+) => {
+  const searchParams = new URLSearchParams();
+  if (params.page) searchParams.set("page", params.page.toString());
+  if (params.limit) searchParams.set("limit", params.limit.toString());
+  if (params.status) searchParams.set("status", params.status);
+  if (params.minPrice) searchParams.set("minPrice", params.minPrice.toString());
+  if (params.maxPrice) searchParams.set("maxPrice", params.maxPrice.toString());
+  if (params.blockId) searchParams.set("blockId", params.blockId);
+
+  const queryString = searchParams.toString();
+  return `/projects/${projectId}/plots${queryString ? `?${queryString}` : ""}`;
+};
+
+const PLOTS_SOURCE = "GET /projects/:id/plots";
+
 export const usePlotsByProject = (
   projectId: string,
   params: GetPlotsByProjectParams = {}
@@ -32,38 +67,104 @@ export const usePlotsByProject = (
 
   return useQuery({
     queryKey: PLOT_QUERY_KEYS.listByProject(projectId, params),
-    queryFn: async () => {
-      const searchParams = new URLSearchParams();
-      if (params.page) searchParams.set("page", params.page.toString());
-      if (params.limit) searchParams.set("limit", params.limit.toString());
-      if (params.status) searchParams.set("status", params.status);
-      if (params.minPrice)
-        searchParams.set("minPrice", params.minPrice.toString());
-      if (params.maxPrice)
-        searchParams.set("maxPrice", params.maxPrice.toString());
-      if (params.blockId) searchParams.set("blockId", params.blockId);
-
-      const queryString = searchParams.toString();
-      const url = `/projects/${projectId}/plots${
-        queryString ? `?${queryString}` : ""
-      }`;
-      const response = await api.get<ApiResponse<PlotsResponse>>(url);
-      return response.data.data;
+    queryFn: async ({ signal }) => {
+      const response = await api.get<ApiResponse<PlotsResponse>>(
+        getPlotsByProjectUrl(projectId, params),
+        { signal }
+      );
+      const { plots, pagination } = parseApiResponse(
+        plotsResponseSchema,
+        response.data.data,
+        PLOTS_SOURCE
+      );
+      return {
+        plots: parseApiList(plotResponseSchema, plots, PLOTS_SOURCE),
+        pagination,
+      };
     },
     enabled: !!projectId,
   });
 };
 
+// Page size used when walking every page of a filtered plot list
+const ALL_PLOTS_PAGE_SIZE = 200;
+
+export const fetchAllPlotsByProject = async (
+  api: AxiosInstance,
+  projectId: string,
+  params: Omit<GetPlotsByProjectParams, "page" | "limit"> = {},
+  signal?: AbortSignal
+) => {
+  const plots: Plot[] = [];
+  for (let page = 1; ; page++) {
+    const response = await api.get<ApiResponse<PlotsResponse>>(
+      getPlotsByProjectUrl(projectId, {
+        ...params,
+        page,
+        limit: ALL_PLOTS_PAGE_SIZE,
+      }),
+      { signal }
+    );
+    const { plots: pagePlots, pagination } = parseApiResponse(
+      plotsResponseSchema,
+      response.data.data,
+      PLOTS_SOURCE
+    );
+    plots.push(...parseApiList(plotResponseSchema, pagePlots, PLOTS_SOURCE));
+    if (page >= pagination.totalPages || pagePlots.length === 0) break;
+  }
+  return plots;
+};
+
+export const useAllPlotsByProject = (
+  projectId: string,
+  params: Omit<GetPlotsByProjectParams, "page" | "limit"> = {},
+  enabled = true
+) => {
+  const api = useAxios();
+
+  return useQuery({
+    queryKey: [...PLOT_QUERY_KEYS.lists(), projectId, "all", params] as const,
+    queryFn: ({ signal }) =>
+      fetchAllPlotsByProject(api, projectId, params, signal),
+    enabled: !!projectId && enabled,
+  });
+};
+
+// Loads every plot matching a filter on demand, e.g. to export them or to
+// select them all
+export const useFetchAllPlots = (errorMessage = "Failed to load plots") => {
+  const api = useAxios();
+
+  return useMutation({
+    mutationFn: ({
+      projectId,
+      params,
+    }: {
+      projectId: string;
+      params: Omit<GetPlotsByProjectParams, "page" | "limit">;
+    }) => fetchAllPlotsByProject(api, projectId, params),
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.message || errorMessage);
+    },
+  });
+};
+
 export const usePlot = (plotId: string) => {
   const api = useAxios();
 
   return useQuery({
     queryKey: PLOT_QUERY_KEYS.detail(plotId),
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       const response = await api.get<ApiResponse<Plot>>(
-        `/projects/plots/${plotId}`
+        `/projects/plots/${plotId}`,
+        { signal }
+      );
+      return parseApiResponse(
+        plotResponseSchema,
+        response.data.data,
+        "GET /projects/plots/:id"
       );
-      return response.data.data;
     },
     enabled: !!plotId,
   });
@@ -79,12 +180,16 @@ export const useCreatePlot = () => {
         "/projects/plots",
         input
       );
-      return response.data.data;
+      return checkApiResponse(
+        plotResponseSchema,
+        response.data.data,
+        "POST /projects/plots"
+      );
     },
-    onSuccess: (data) => {
+    onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({ queryKey: PLOT_QUERY_KEYS.all });
       queryClient.invalidateQueries({
-        queryKey: PROJECT_QUERY_KEYS.detail(data.projectId),
+        queryKey: PROJECT_QUERY_KEYS.detail(variables.projectId),
       });
       toast.success("Plot created successfully");
     },
@@ -135,11 +240,17 @@ export const useUpdatePlot = () => {
         `/projects/plots/${plotId}`,
         data
       );
-      return response.data.data;
+      return checkApiResponse(
+        plotResponseSchema,
+        response.data.data,
+        "PUT /projects/plots/:id"
+      );
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: PLOT_QUERY_KEYS.all });
-      queryClient.setQueryData(PLOT_QUERY_KEYS.detail(data._id), data);
+      if (data) {
+        queryClient.setQueryData(PLOT_QUERY_KEYS.detail(data._id), data);
+      }
       toast.success("Plot updated successfully");
     },
     onError: (error: ApiError) => {
@@ -148,6 +259,69 @@ export const useUpdatePlot = () => {
   });
 };
 
+// Cached plot lists hold either a page of plots or every plot of a project
+type CachedPlots = PlotsResponse | Plot[];
+
+const mapCachedPlots = (
+  cached: CachedPlots | undefined,
+  update: (plot: Plot) => Plot
+) => {
+  if (!cached) return cached;
+  return Array.isArray(cached)
+    ? cached.map(update)
+    : { ...cached, plots: cached.plots.map(update) };
+};
+
+// Writes a plot's new status into every cached list, its detail and the
+// project's plotStats. Returns the status the caches held before, if any
+export const setCachedPlotStatus = (
+  queryClient: QueryClient,
+  {
+    projectId,
+    plotId,
+    status,
+  }: { projectId: string; plotId: string; status: PlotStatus }
+) => {
+  const listsKey = [...PLOT_QUERY_KEYS.lists(), projectId];
+  const detailKey = PLOT_QUERY_KEYS.detail(plotId);
+
+  const previousStatus = (
+    queryClient.getQueryData<Plot>(detailKey) ??
+    queryClient
+      .getQueriesData<CachedPlots>({ queryKey: listsKey })
+      .flatMap(([, cached]) =>
+        !cached ? [] : Array.isArray(cached) ? cached : cached.plots
+      )
+      .find((plot) => plot._id === plotId)
+  )?.status;
+
+  const applyStatus = (plot: Plot) =>
+    plot._id === plotId ? { ...plot, status } : plot;
+  queryClient.setQueriesData<CachedPlots>({ queryKey: listsKey }, (cached) =>
+    mapCachedPlots(cached, applyStatus)
+  );
+  queryClient.setQueryData<Plot>(
+    detailKey,
+    (cached) => cached && applyStatus(cached)
+  );
+
+  if (previousStatus && previousStatus !== status) {
+    queryClient.setQueryData<ProjectWithStats>(
+      PROJECT_QUERY_KEYS.detail(projectId),
+      (cached) =>
+        cached && {
+          ...cached,
+          plotStats: {
+            ...cached.plotStats,
+            [previousStatus]: Math.max(0, cached.plotStats[previousStatus] - 1),
+            [status]: cached.plotStats[status] + 1,
+          },
+        }
+    );
+  }
+  return previousStatus;
+};
+
 export const useUpdatePlotStatus = () => {
   const api = useAxios();
   const queryClient = useQueryClient();
@@ -158,24 +332,67 @@ export const useUpdatePlotStatus = () => {
       data,
     }: {
       plotId: string;
+      projectId: string;
       data: UpdatePlotStatusInput;
     }) => {
       const response = await api.patch<ApiResponse<Plot>>(
         `/projects/plots/${plotId}/status`,
         data
       );
-      return response.data.data;
+      return checkApiResponse(
+        plotResponseSchema,
+        response.data.data,
+        "PATCH /projects/plots/:id/status"
+      );
+    },
+    // The badge and counters change straight away; the snapshot restores
+    // every touched cache if the server rejects the change
+    onMutate: async ({ plotId, projectId, data }) => {
+      const listsKey = [...PLOT_QUERY_KEYS.lists(), projectId];
+      const detailKey = PLOT_QUERY_KEYS.detail(plotId);
+      const projectKey = PROJECT_QUERY_KEYS.detail(projectId);
+      await Promise.all(
+        [listsKey, detailKey, projectKey].map((queryKey) =>
+          queryClient.cancelQueries({ queryKey })
+        )
+      );
+
+      const snapshot = [
+        ...queryClient.getQueriesData({ queryKey: listsKey }),
+        ...queryClient.getQueriesData({ queryKey: detailKey }),
+        ...queryClient.getQueriesData({ queryKey: projectKey }),
+      ];
+      setCachedPlotStatus(queryClient, {
+        projectId,
+        plotId,
+        status: data.status,
+      });
+      return { snapshot };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: PLOT_QUERY_KEYS.all });
-      queryClient.setQueryData(PLOT_QUERY_KEYS.detail(data._id), data);
+      if (data) {
+        queryClient.setQueryData(PLOT_QUERY_KEYS.detail(data._id), data);
+      }
       toast.success("Plot status updated successfully");
     },
-    onError: (error: ApiError) => {
+    onError: (error: ApiError, _variables, context) => {
+      context?.snapshot.forEach(([queryKey, cached]) =>
+        queryClient.setQueryData(queryKey, cached)
+      );
       toast.error(
         error.response?.data?.message || "Failed to update plot status"
       );
     },
+    // Filtered lists may no longer match, so they are refetched quietly
+    onSettled: (_data, _error, { projectId }) => {
+      queryClient.invalidateQueries({
+        queryKey: [...PLOT_QUERY_KEYS.lists(), projectId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: PROJECT_QUERY_KEYS.detail(projectId),
+      });
+      queryClient.invalidateQueries({ queryKey: ANALYTICS_QUERY_KEYS.all });
+    },
   });
 };
 
@@ -233,3 +450,84 @@ export const useBulkUpdatePlots = () => {
     },
   });
 };
+
+// Requests in flight at once while running a bulk plot operation
+const BULK_PLOT_CONCURRENCY = 5;
+
+const runPlotOperation = (
+  api: AxiosInstance,
+  plot: Plot,
+  operation: BulkPlotOperation
+) => {
+  switch (operation.type) {
+    case "status":
+      return api.patch(`/projects/plots/${plot._id}/status`, {
+        status: operation.status,
+      });
+    case "delete":
+      return api.delete(`/projects/plots/${plot._id}`);
+    case "update":
+      return api.put(
+        `/projects/plots/${plot._id}`,
+        operation.updates[plot._id]
+      );
+  }
+};
+
+// Runs one request per plot so every plot gets its own success or failure in
+// the report. The mutation itself never fails; failures are in the results
+export const useBulkPlotOperation = () => {
+  const api = useAxios();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      plots,
+      operation,
+      onProgress,
+    }: {
+      projectId: string;
+      plots: Plot[];
+      operation: BulkPlotOperation;
+      onProgress?: (done: number, total: number) => void;
+    }) => {
+      const results: BulkPlotResult[] = [];
+      for (let i = 0; i < plots.length; i += BULK_PLOT_CONCURRENCY) {
+        const batch = plots.slice(i, i + BULK_PLOT_CONCURRENCY);
+        const settled = await Promise.allSettled(
+          batch.map((plot) => runPlotOperation(api, plot, operation))
+        );
+        settled.forEach((result, j) => {
+          results.push(
+            result.status === "fulfilled"
+              ? { plot: batch[j], ok: true }
+              : {
+                  plot: batch[j],
+                  ok: false,
+                  error:
+                    (result.reason as ApiError).response?.data?.message ||
+                    "Request failed",
+                }
+          );
+        });
+        onProgress?.(results.length, plots.length);
+      }
+      return results;
+    },
+    onSuccess: (results) => {
+      const failed = results.filter((r) => !r.ok).length;
+      if (failed === 0) {
+        toast.success(`Bulk action completed for ${results.length} plots`);
+      } else {
+        toast.error(`${failed} of ${results.length} plots failed`);
+      }
+    },
+    onSettled: (_data, _error, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: PLOT_QUERY_KEYS.all });
+      queryClient.invalidateQueries({
+        queryKey: PROJECT_QUERY_KEYS.detail(projectId),
+      });
+      queryClient.invalidateQueries({ queryKey: ANALYTICS_QUERY_KEYS.all });
+    },
+  });
+};
@@ -0,0 +1,114 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import useAxios, { ApiResponse, ApiError } from "./useAxios";
+import { PLOT_QUERY_KEYS } from "./usePlot";
+import { PROJECT_QUERY_KEYS } from "./useProject";
+import { toast } from "sonner";
+import { CreatePriceRevisionInput, PriceRevision } from "@/types/project.types";
+import {
+  checkApiResponse,
+  parseApiList,
+  parseApiResponse,
+} from "@/lib/apiValidation";
+import {
+  priceRevisionResponseSchema,
+  priceRevisionsResponseSchema,
+} from "@/schema/api.schema";
+
+// Newest revisions shown in the history; older ones stay on the server
+const HISTORY_LIMIT = 50;
+
+export const PRICE_REVISION_QUERY_KEYS = {
+  all: ["priceRevisions"] as const,
+  byProject: (projectId: string) =>
+    [...PRICE_REVISION_QUERY_KEYS.all, projectId] as const,
+};
+
+export const usePriceRevisions = (projectId: string, enabled = true) => {
+  const api = useAxios();
+
+  return useQuery({
+    queryKey: PRICE_REVISION_QUERY_KEYS.byProject(projectId),
+    queryFn: async ({ signal }) => {
+      const response = await api.get<ApiResponse<PriceRevision[]>>(
+        `/projects/${projectId}/price-revisions?limit=${HISTORY_LIMIT}`,
+        { signal }
+      );
+      const revisions = parseApiResponse(
+        priceRevisionsResponseSchema,
+        response.data.data,
+        "GET /projects/:id/price-revisions"
+      );
+      return parseApiList(
+        priceRevisionResponseSchema,
+        revisions,
+        "GET /projects/:id/price-revisions"
+      );
+    },
+    enabled: !!projectId && enabled,
+  });
+};
+
+// The API applies the new prices and records the revision in one request,
+// so prices never change without a revision to roll back
+export const useCreatePriceRevision = () => {
+  const api = useAxios();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreatePriceRevisionInput) => {
+      const response = await api.post<ApiResponse<PriceRevision>>(
+        "/projects/price-revisions",
+        input
+      );
+      return checkApiResponse(
+        priceRevisionResponseSchema,
+        response.data.data,
+        "POST /projects/price-revisions"
+      );
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: PRICE_REVISION_QUERY_KEYS.byProject(variables.projectId),
+      });
+      queryClient.invalidateQueries({ queryKey: PLOT_QUERY_KEYS.all });
+      queryClient.invalidateQueries({
+        queryKey: PROJECT_QUERY_KEYS.detail(variables.projectId),
+      });
+      toast.success(`${variables.plots.length} plots repriced`);
+    },
+    onError: (error: ApiError) => {
+      toast.error(
+        error.response?.data?.message || "Failed to apply price revision"
+      );
+    },
+  });
+};
+
+export const useRollbackPriceRevision = () => {
+  const api = useAxios();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (revision: PriceRevision) => {
+      const response = await api.patch<ApiResponse<PriceRevision>>(
+        `/projects/price-revisions/${revision._id}/rollback`
+      );
+      return checkApiResponse(
+        priceRevisionResponseSchema,
+        response.data.data,
+        "PATCH /projects/price-revisions/:id/rollback"
+      );
+    },
+    onSuccess: (_data, revision) => {
+      queryClient.invalidateQueries({
+        queryKey: PRICE_REVISION_QUERY_KEYS.byProject(revision.projectId),
+      });
+      toast.success("Price revision rolled back");
+    },
+    onError: (error: ApiError) => {
+      toast.error(
+        error.response?.data?.message || "Failed to roll back price revision"
+      );
+    },
+  });
+};
@@ -9,6 +9,16 @@ import {
   ProjectsResponse,
   ProjectWithStats,
 } from "@/types/project.types";
+import {
+  checkApiResponse,
+  parseApiList,
+  parseApiResponse,
+} from "@/lib/apiValidation";
+import {
+  projectResponseSchema,
+  projectsResponseSchema,
+  projectWithStatsResponseSchema,
+} from "@/schema/api.schema";
 import {
   uploadFileToFirebase,
   generateFilePath,
@@ -29,7 +39,7 @@ export const useProjects = (params: GetProjectsParams = {}) => {
 
   return useQuery({
     queryKey: PROJECT_QUERY_KEYS.list(params),
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       const searchParams = new URLSearchParams();
       if (params.page) searchParams.set("page", params.page.toString());
       if (params.limit) searchParams.set("limit", params.limit.toString());
@@ -42,8 +52,22 @@ export const useProjects = (params: GetProjectsParams = {}) => {
 
       const queryString = searchParams.toString();
       const url = `/projects${queryString ? `?${queryString}` : ""}`;
-      const response = await api.get<ApiResponse<ProjectsResponse>>(url);
-      return response.data.data;
+      const response = await api.get<ApiResponse<ProjectsResponse>>(url, {
+        signal,
+      });
+      const { projects, pagination } = parseApiResponse(
+        projectsResponseSchema,
+        response.data.data,
+        "GET /projects"
+      );
+      return {
+        projects: parseApiList(
+          projectResponseSchema,
+          projects,
+          "GET /projects"
+        ),
+        pagination,
+      };
     },
   });
 };
@@ -53,11 +77,16 @@ export const useProject = (projectId: string) => {
 
   return useQuery({
     queryKey: PROJECT_QUERY_KEYS.detail(projectId),
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       const response = await api.get<ApiResponse<ProjectWithStats>>(
-        `/projects/${projectId}`
+        `/projects/${projectId}`,
+        { signal }
+      );
+      return parseApiResponse(
+        projectWithStatsResponseSchema,
+        response.data.data,
+        "GET /projects/:id"
       );
-      return response.data.data;
     },
     enabled: !!projectId,
   });
@@ -70,7 +99,11 @@ export const useCreateProject = () => {
   return useMutation({
     mutationFn: async (input: CreateProjectInput) => {
       const response = await api.post<ApiResponse<Project>>("/projects", input);
-      return response.data.data;
+      return checkApiResponse(
+        projectResponseSchema,
+        response.data.data,
+        "POST /projects"
+      );
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: PROJECT_QUERY_KEYS.all });
@@ -98,13 +131,20 @@ export const useUpdateProject = () => {
         `/projects/${projectId}`,
         data
       );
-      return response.data.data;
+      return checkApiResponse(
+        projectResponseSchema,
+        response.data.data,
+        "PUT /projects/:id"
+      );
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: PROJECT_QUERY_KEYS.all });
-      queryClient.setQueryData(PROJECT_QUERY_KEYS.detail(data._id), {
-        project: data,
-      });
+      if (data) {
+        queryClient.setQueryData<ProjectWithStats>(
+          PROJECT_QUERY_KEYS.detail(data._id),
+          (prev) => (prev ? { ...prev, project: data } : prev)
+        );
+      }
       toast.success("Project updated successfully");
     },
     onError: (error: ApiError) => {
@@ -122,7 +162,11 @@ export const useActivateProject = () => {
       const response = await api.post<ApiResponse<Project>>(
         `/projects/${projectId}/activate`
       );
-      return response.data.data;
+      return checkApiResponse(
+        projectResponseSchema,
+        response.data.data,
+        "POST /projects/:id/activate"
+      );
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: PROJECT_QUERY_KEYS.all });
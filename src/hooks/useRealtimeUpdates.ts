@@ -0,0 +1,127 @@
+import { useEffect } from "react";
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/authStore";
+import { ANALYTICS_QUERY_KEYS } from "./useAnalytics";
+import { PLOT_QUERY_KEYS, setCachedPlotStatus } from "./usePlot";
+import { BOOKING_QUERY_KEYS } from "./useBookings";
+import { PROJECT_QUERY_KEYS } from "./useProject";
+import { checkApiResponse } from "@/lib/apiValidation";
+import { realtimeEventSchema } from "@/schema/api.schema";
+import { Booking, BookingsResponse } from "@/types/booking.types";
+import { PlotStatus } from "@/types/project.types";
+import { RealtimeEvent } from "@/types/realtime.types";
+
+// Live updates stay off until an event stream is configured
+const REALTIME_URL = process.env.NEXT_PUBLIC_REALTIME_URL;
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+const STATUS_NOTICES: Record<PlotStatus, string> = {
+  available: "is available again",
+  reserved: "was just reserved",
+  booked: "just got booked",
+  sold: "was just sold",
+};
+
+const applyEvent = (queryClient: QueryClient, event: RealtimeEvent) => {
+  // Every event changes the sales figures, so analytics are refetched
+  queryClient.invalidateQueries({ queryKey: ANALYTICS_QUERY_KEYS.all });
+
+  if (event.type === "plot.status") {
+    const previousStatus = setCachedPlotStatus(queryClient, event);
+    // Changes made in this tab are already in the cache, so they stay quiet
+    if (previousStatus !== event.status) {
+      toast.info(`Plot ${event.plotNumber} ${STATUS_NOTICES[event.status]}`);
+    }
+    return;
+  }
+
+  if (event.type === "booking.created") {
+    // Where a new booking lands depends on each list's filters and page
+    queryClient.invalidateQueries({ queryKey: BOOKING_QUERY_KEYS.all });
+    return;
+  }
+
+  const applyStatus = (booking: Booking) =>
+    booking._id === event.bookingId
+      ? { ...booking, bookingStatus: event.bookingStatus }
+      : booking;
+  queryClient.setQueriesData<BookingsResponse>(
+    { queryKey: [...BOOKING_QUERY_KEYS.all, "list"] },
+    (cached) =>
+      cached && { ...cached, bookings: cached.bookings.map(applyStatus) }
+  );
+  queryClient.setQueryData<Booking>(
+    BOOKING_QUERY_KEYS.detail(event.bookingId),
+    (cached) => cached && applyStatus(cached)
+  );
+};
+
+// Subscribes to plot and booking events for the signed in developer and
+// writes them into the React Query caches
+export const useRealtimeUpdates = () => {
+  const queryClient = useQueryClient();
+  const token = useAuthStore((state) => state.token);
+
+  useEffect(() => {
+    if (!REALTIME_URL || !token) return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let hasConnected = false;
+
+    const connect = () => {
+      // EventSource cannot send headers, so the token goes in the query
+      source = new EventSource(
+        `${REALTIME_URL}?token=${encodeURIComponent(token)}`
+      );
+
+      source.onopen = () => {
+        attempts = 0;
+        // Events sent while disconnected are lost, so catch up by refetching
+        if (hasConnected) {
+          queryClient.invalidateQueries({ queryKey: PLOT_QUERY_KEYS.lists() });
+          queryClient.invalidateQueries({ queryKey: BOOKING_QUERY_KEYS.all });
+          queryClient.invalidateQueries({
+            queryKey: PROJECT_QUERY_KEYS.details(),
+          });
+          queryClient.invalidateQueries({
+            queryKey: ANALYTICS_QUERY_KEYS.all,
+          });
+        }
+        hasConnected = true;
+      };
+
+      source.onmessage = ({ data }) => {
+        let payload: unknown;
+        try {
+          payload = JSON.parse(data);
+        } catch {
+          return;
+        }
+        const event = checkApiResponse(
+          realtimeEventSchema,
+          payload,
+          "SSE realtime events"
+        );
+        if (event) applyEvent(queryClient, event);
+      };
+
+      // The browser reconnects dropped streams itself; a closed one, e.g.
+      // after the token was rejected, needs a new EventSource
+      source.onerror = () => {
+        if (source?.readyState !== EventSource.CLOSED) return;
+        const delay = Math.min(2 ** attempts * 1000, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [queryClient, token]);
+};
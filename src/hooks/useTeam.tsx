@@ -0,0 +1,142 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import useAxios, { ApiResponse, ApiError } from "./useAxios";
+import { toast } from "sonner";
+import {
+  InviteTeamMemberInput,
+  TeamMember,
+  UpdateTeamMemberInput,
+} from "@/types/team.types";
+import {
+  checkApiResponse,
+  parseApiList,
+  parseApiResponse,
+} from "@/lib/apiValidation";
+import {
+  teamMemberResponseSchema,
+  teamMembersResponseSchema,
+} from "@/schema/api.schema";
+
+export const TEAM_QUERY_KEYS = {
+  all: ["team"] as const,
+  members: () => [...TEAM_QUERY_KEYS.all, "members"] as const,
+};
+
+export const useTeamMembers = () => {
+  const api = useAxios();
+
+  return useQuery({
+    queryKey: TEAM_QUERY_KEYS.members(),
+    queryFn: async ({ signal }) => {
+      const response = await api.get<ApiResponse<TeamMember[]>>(
+        "/developers/team",
+        { signal }
+      );
+      const members = parseApiResponse(
+        teamMembersResponseSchema,
+        response.data.data,
+        "GET /developers/team"
+      );
+      return parseApiList(
+        teamMemberResponseSchema,
+        members,
+        "GET /developers/team"
+      );
+    },
+  });
+};
+
+export const useInviteTeamMember = () => {
+  const api = useAxios();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: InviteTeamMemberInput) => {
+      const response = await api.post<ApiResponse<TeamMember>>(
+        "/developers/team/invite",
+        input
+      );
+      return checkApiResponse(
+        teamMemberResponseSchema,
+        response.data.data,
+        "POST /developers/team/invite"
+      );
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: TEAM_QUERY_KEYS.members() });
+      toast.success(`Invitation sent to ${variables.email}`);
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.message || "Failed to send invitation");
+    },
+  });
+};
+
+export const useResendTeamInvite = () => {
+  const api = useAxios();
+
+  return useMutation({
+    mutationFn: async (memberId: string) => {
+      await api.post(`/developers/team/${memberId}/resend`);
+    },
+    onSuccess: () => {
+      toast.success("Invitation sent again");
+    },
+    onError: (error: ApiError) => {
+      toast.error(
+        error.response?.data?.message || "Failed to resend invitation"
+      );
+    },
+  });
+};
+
+export const useUpdateTeamMember = () => {
+  const api = useAxios();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      memberId,
+      data,
+    }: {
+      memberId: string;
+      data: UpdateTeamMemberInput;
+    }) => {
+      const response = await api.patch<ApiResponse<TeamMember>>(
+        `/developers/team/${memberId}`,
+        data
+      );
+      return checkApiResponse(
+        teamMemberResponseSchema,
+        response.data.data,
+        "PATCH /developers/team/:id"
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TEAM_QUERY_KEYS.members() });
+      toast.success("Role updated");
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.message || "Failed to update role");
+    },
+  });
+};
+
+export const useRemoveTeamMember = () => {
+  const api = useAxios();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (memberId: string) => {
+      await api.delete(`/developers/team/${memberId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TEAM_QUERY_KEYS.members() });
+      toast.success("Team member removed");
+    },
+    onError: (error: ApiError) => {
+      toast.error(
+        error.response?.data?.message || "Failed to remove team member"
+      );
+    },
+  });
+};
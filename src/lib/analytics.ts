@@ -0,0 +1,184 @@
+import {
+  addWeeks,
+  format,
+  isAfter,
+  min as minDate,
+  startOfWeek,
+  subWeeks,
+} from "date-fns";
+import { SQ_METERS_PER_UNIT } from "@/lib/geometry";
+import { Booking } from "@/types/booking.types";
+import { Plot } from "@/types/project.types";
+
+// Weeks run Monday to Sunday, as in the Monday management review
+const toWeek = (date: Date | string) =>
+  startOfWeek(new Date(date), { weekStartsOn: 1 });
+
+const weekKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Every week start from the earliest date (or minWeeks back) to this week
+const getWeeks = (dates: Date[], minWeeks: number) => {
+  const end = toWeek(new Date());
+  const floor = subWeeks(end, minWeeks - 1);
+  const start = dates.length ? minDate([toWeek(minDate(dates)), floor]) : floor;
+  const weeks: Date[] = [];
+  for (let week = start; !isAfter(week, end); week = addWeeks(week, 1)) {
+    weeks.push(week);
+  }
+  return weeks;
+};
+
+export interface WeeklyBookingPoint {
+  week: string;
+  label: string;
+  bookings: number;
+  value: number;
+  cumulativeValue: number;
+}
+
+// Bookings made per week and the value of those not since cancelled
+export const getWeeklyBookings = (
+  bookings: Booking[],
+  minWeeks = 12
+): WeeklyBookingPoint[] => {
+  const counts = new Map<string, { bookings: number; value: number }>();
+  bookings.forEach((booking) => {
+    const key = weekKey(toWeek(booking.bookingDate));
+    const entry = counts.get(key) ?? { bookings: 0, value: 0 };
+    entry.bookings += 1;
+    if (booking.bookingStatus !== "cancelled") {
+      entry.value += booking.plotId.price;
+    }
+    counts.set(key, entry);
+  });
+
+  let cumulativeValue = 0;
+  return getWeeks(
+    bookings.map((b) => new Date(b.bookingDate)),
+    minWeeks
+  ).map((week) => {
+    const entry = counts.get(weekKey(week)) ?? { bookings: 0, value: 0 };
+    cumulativeValue += entry.value;
+    return {
+      week: weekKey(week),
+      label: format(week, "d MMM"),
+      ...entry,
+      cumulativeValue,
+    };
+  });
+};
+
+export interface FunnelStage {
+  stage: string;
+  count: number;
+}
+
+export const getStatusFunnel = (bookings: Booking[]): FunnelStage[] => {
+  const count = (statuses: Booking["bookingStatus"][]) =>
+    bookings.filter((b) => statuses.includes(b.bookingStatus)).length;
+  return [
+    { stage: "Booked", count: bookings.length },
+    { stage: "Confirmed", count: count(["confirmed", "completed"]) },
+    { stage: "Completed", count: count(["completed"]) },
+    { stage: "Cancelled", count: count(["cancelled"]) },
+  ];
+};
+
+export interface BurnDownSeries {
+  data: Record<string, string | number>[];
+  blockIds: string[];
+}
+
+// Available plots per block at the end of each week. The series is anchored
+// on today's inventory and walked back through booking and cancellation
+// dates, so the latest point always matches the plots table
+export const getInventoryBurnDown = (
+  plots: Plot[],
+  bookings: Booking[],
+  minWeeks = 12
+): BurnDownSeries => {
+  const blockIds = Array.from(new Set(plots.map((p) => p.blockId)));
+  const available: Record<string, number> = Object.fromEntries(
+    blockIds.map((id) => [id, 0])
+  );
+  plots.forEach((plot) => {
+    if (plot.status === "available") available[plot.blockId] += 1;
+  });
+
+  // Net plots taken per week and block: +1 when booked, -1 when cancelled
+  const taken = new Map<string, Record<string, number>>();
+  const addEvent = (date: string, blockId: string, delta: number) => {
+    const key = weekKey(toWeek(date));
+    const entry = taken.get(key) ?? {};
+    entry[blockId] = (entry[blockId] ?? 0) + delta;
+    taken.set(key, entry);
+  };
+  const plotBlocks = new Map(plots.map((p) => [p._id, p.blockId]));
+  const eventDates: Date[] = [];
+  bookings.forEach((booking) => {
+    const blockId = plotBlocks.get(booking.plotId._id) ?? booking.blockId;
+    if (!(blockId in available)) return;
+    addEvent(booking.bookingDate, blockId, 1);
+    eventDates.push(new Date(booking.bookingDate));
+    if (booking.bookingStatus === "cancelled" && booking.cancelledAt) {
+      addEvent(booking.cancelledAt, blockId, -1);
+      eventDates.push(new Date(booking.cancelledAt));
+    }
+  });
+
+  const weeks = getWeeks(eventDates, minWeeks);
+  const current = { ...available };
+  const data = weeks
+    .slice()
+    .reverse()
+    .map((week) => {
+      const point: Record<string, string | number> = {
+        week: weekKey(week),
+        label: format(week, "d MMM"),
+        total: Object.values(current).reduce((sum, n) => sum + n, 0),
+        ...current,
+      };
+      // Undo this week's events to get the count at the previous week's end
+      Object.entries(taken.get(weekKey(week)) ?? {}).forEach(
+        ([blockId, delta]) => {
+          current[blockId] += delta;
+        }
+      );
+      return point;
+    })
+    .reverse();
+
+  return { data, blockIds };
+};
+
+const toSqFt = (plot: Plot) =>
+  (plot.area * SQ_METERS_PER_UNIT[plot.areaUnit]) / SQ_METERS_PER_UNIT.SQ_FT;
+
+// Area-weighted ₹ per sq. ft, so plots listed in other units compare fairly
+const averageRate = (plots: Plot[]) => {
+  const area = plots.reduce((sum, p) => sum + toSqFt(p), 0);
+  if (area === 0) return 0;
+  return Math.round(plots.reduce((sum, p) => sum + p.price, 0) / area);
+};
+
+export interface PriceComparison {
+  name: string;
+  listed: number;
+  sold: number;
+}
+
+// Booked and sold plots count as sold; everything still open is listed
+export const getPriceComparison = (
+  groups: { name: string; plots: Plot[] }[]
+): PriceComparison[] =>
+  groups
+    .map(({ name, plots }) => ({
+      name,
+      listed: averageRate(
+        plots.filter((p) => p.status === "available" || p.status === "reserved")
+      ),
+      sold: averageRate(
+        plots.filter((p) => p.status === "booked" || p.status === "sold")
+      ),
+    }))
+    .filter((row) => row.listed > 0 || row.sold > 0);
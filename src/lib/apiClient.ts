@@ -0,0 +1,177 @@
+import axios, {
+  AxiosError,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/authStore";
+
+type ApiRequestConfig = InternalAxiosRequestConfig & {
+  _retryCount?: number;
+  _refreshed?: boolean;
+};
+
+const REFRESH_URL = "/developers/refresh-token";
+// Endpoints that work without a session, so a 401 from them is a plain error
+const PUBLIC_URLS = [
+  "/developers/login",
+  "/developers/create",
+  "/developers/forgot-password",
+  "/developers/verify-reset-otp",
+  "/developers/reset-password",
+  "/developers/team/accept",
+  REFRESH_URL,
+];
+// Refresh this long before the token expires rather than waiting for a 401
+const REFRESH_MARGIN_MS = 60 * 1000;
+const MAX_GET_RETRIES = 3;
+const MAX_RETRY_DELAY_MS = 8000;
+
+const isPublicUrl = (url?: string) =>
+  !!url && PUBLIC_URLS.some((path) => url.startsWith(path));
+
+// Expiry of a JWT in ms, or null when the token cannot be decoded
+const getTokenExpiry = (token: string) => {
+  try {
+    const payload = JSON.parse(
+      atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/"))
+    );
+    return typeof payload.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CanceledError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new CanceledError());
+      },
+      { once: true }
+    );
+  });
+
+const baseConfig = {
+  baseURL: process.env.NEXT_PUBLIC_API_URL,
+  headers: {
+    "Content-Type": "application/json",
+  },
+};
+
+export const apiClient = axios.create(baseConfig);
+
+// Refresh calls go through a bare instance so they never hit the interceptors
+const refreshClient = axios.create(baseConfig);
+
+let refreshPromise: Promise<string> | null = null;
+
+const expireSession = () => {
+  if (!useAuthStore.getState().token) return;
+  // ProtectedPage sends the user to /login once the session is cleared
+  useAuthStore.getState().logout();
+  toast.error("Session expired, please login again");
+};
+
+// Only one refresh runs at a time; requests made meanwhile wait for it
+const refreshToken = () => {
+  if (!refreshPromise) {
+    const { token, refreshToken: storedRefreshToken } = useAuthStore.getState();
+    refreshPromise = refreshClient
+      .post<{ data: { token: string; refreshToken?: string } }>(
+        REFRESH_URL,
+        storedRefreshToken ? { refreshToken: storedRefreshToken } : {},
+        { headers: { Authorization: `Bearer ${token}` } }
+      )
+      .then(({ data }) => {
+        useAuthStore
+          .getState()
+          .setToken(data.data.token, data.data.refreshToken);
+        return data.data.token;
+      })
+      .catch((error) => {
+        expireSession();
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+apiClient.interceptors.request.use(async (config) => {
+  if (!isPublicUrl(config.url)) {
+    const { token } = useAuthStore.getState();
+    const expiresAt = token ? getTokenExpiry(token) : null;
+    try {
+      if (refreshPromise) {
+        await refreshPromise;
+      } else if (expiresAt && expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+        await refreshToken();
+      }
+    } catch {
+      // The session has been cleared; the request goes out unauthenticated
+    }
+  }
+  const token = useAuthStore.getState().token;
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const config = error.config as ApiRequestConfig | undefined;
+    if (!config || axios.isCancel(error)) return Promise.reject(error);
+    const status = error.response?.status;
+
+    // 401 means the session is no longer valid: refresh once and replay.
+    // 403 is a permission error and is left to the caller
+    if (status === 401 && !isPublicUrl(config.url)) {
+      if (config._refreshed || !useAuthStore.getState().token) {
+        expireSession();
+        return Promise.reject(error);
+      }
+      config._refreshed = true;
+      try {
+        await refreshToken();
+      } catch {
+        return Promise.reject(error);
+      }
+      return apiClient(config);
+    }
+
+    // GETs are safe to repeat, so retry network errors, 429s and 5xxs
+    const isRetryable =
+      !error.response || status === 429 || (status ?? 0) >= 500;
+    const retryCount = config._retryCount ?? 0;
+    const retryAfter = Number(error.response?.headers?.["retry-after"]);
+    // A server asking for a longer wait than we would ever back off gets the
+    // error straight away instead of a query left pending for that long
+    const waitsTooLong = retryAfter * 1000 > MAX_RETRY_DELAY_MS;
+    if (
+      config.method === "get" &&
+      isRetryable &&
+      !waitsTooLong &&
+      retryCount < MAX_GET_RETRIES
+    ) {
+      config._retryCount = retryCount + 1;
+      const delay =
+        retryAfter > 0
+          ? retryAfter * 1000
+          : Math.min(2 ** retryCount * 500, MAX_RETRY_DELAY_MS) +
+            Math.random() * 250;
+      await wait(delay, config.signal as AbortSignal | undefined);
+      return apiClient(config);
+    }
+
+    return Promise.reject(error);
+  }
+);
@@ -0,0 +1,100 @@
+import { isAxiosError } from "axios";
+import { FieldValues, Path, UseFormReturn, get } from "react-hook-form";
+import { ApiConflict, ApiErrorBody, ApiFieldError } from "@/hooks/useAxios";
+
+type RawFieldError = Record<string, unknown>;
+
+const asString = (value: unknown) =>
+  typeof value === "string" ? value : undefined;
+
+// Validation errors arrive either as a list of { field | path | param,
+// message | msg } or as a { field: message } map
+const toFieldErrors = (errors: unknown): ApiFieldError[] => {
+  const entries: [unknown, unknown][] = Array.isArray(errors)
+    ? errors.map((item: RawFieldError) => [
+        item?.field ?? item?.path ?? item?.param,
+        item,
+      ])
+    : errors && typeof errors === "object"
+    ? Object.entries(errors)
+    : [];
+
+  return entries.flatMap(([rawField, value]) => {
+    const field = Array.isArray(rawField)
+      ? rawField.join(".")
+      : asString(rawField);
+    const item = (typeof value === "object" ? value : {}) as RawFieldError;
+    const message =
+      asString(value) ?? asString(item?.message) ?? asString(item?.msg);
+    return field && message
+      ? [{ field, message, code: asString(item?.code) }]
+      : [];
+  });
+};
+
+// Normalised error body of a failed request, or null when the request never
+// reached the API
+export const getApiError = (error: unknown): ApiErrorBody | null => {
+  if (!isAxiosError(error) || !error.response) return null;
+  const data = (error.response.data ?? {}) as Record<string, unknown>;
+  const message = asString(data.message) ?? "";
+  const code = asString(data.code);
+  const errors = toFieldErrors(data.errors);
+  const conflict =
+    data.conflict && typeof data.conflict === "object"
+      ? (data.conflict as ApiConflict)
+      : undefined;
+
+  // A conflict names the field holding the duplicate value
+  if (conflict?.field && !errors.some((e) => e.field === conflict.field)) {
+    errors.push({ field: conflict.field, message, code });
+  }
+
+  return { message, code, errors, conflict };
+};
+
+export const getApiErrorMessage = (error: unknown, fallback: string) =>
+  getApiError(error)?.message || fallback;
+
+interface SetApiFormErrorsOptions<T extends FieldValues> {
+  // API field names that differ from the form's, e.g. plotNumber -> prefix
+  fieldMap?: Record<string, Path<T>>;
+}
+
+// Shows the API's field errors under the matching inputs. Errors for fields
+// the form does not have are joined into the root error. Returns false when
+// the response had no field errors, so callers can fall back to a message
+export const setApiFormErrors = <T extends FieldValues>(
+  form: UseFormReturn<T>,
+  error: unknown,
+  { fieldMap = {} }: SetApiFormErrorsOptions<T> = {}
+) => {
+  const errors = getApiError(error)?.errors ?? [];
+  if (errors.length === 0) return false;
+
+  const values = form.getValues();
+  const unmatched: string[] = [];
+  let focused = false;
+
+  errors.forEach(({ field, message }) => {
+    const name = fieldMap[field] ?? field;
+    if (!(field in fieldMap) && get(values, name) === undefined) {
+      unmatched.push(message);
+      return;
+    }
+    form.setError(
+      name as Path<T>,
+      { type: "server", message },
+      { shouldFocus: !focused }
+    );
+    focused = true;
+  });
+
+  if (unmatched.length > 0) {
+    form.setError("root", {
+      type: "server",
+      message: unmatched.join(". "),
+    });
+  }
+  return true;
+};
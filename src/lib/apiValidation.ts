@@ -0,0 +1,83 @@
+import z from "zod";
+import { toast } from "sonner";
+import { useApiDiagnosticsStore } from "@/stores/apiDiagnosticsStore";
+
+const isDev = process.env.NODE_ENV === "development";
+
+// Thrown when a single entity cannot be used, so the query shows its error
+// state instead of the page crashing while it renders
+export class ApiValidationError extends Error {
+  constructor(source: string) {
+    super(`Unexpected response from ${source}`);
+    this.name = "ApiValidationError";
+  }
+}
+
+// Lists that already warned about hidden records in this session
+const warnedSources = new Set<string>();
+
+// Mismatches are only logged and collected for the panel in development
+const report = (source: string, error: z.ZodError, prefix = "") => {
+  if (!isDev) return;
+  error.issues.forEach((issue) => {
+    const path = [prefix, ...issue.path.map(String)].filter(Boolean).join(".");
+    useApiDiagnosticsStore
+      .getState()
+      .report(source, path || "(root)", issue.message);
+  });
+  console.error(`API response mismatch in ${source}`, error.issues);
+};
+
+export const parseApiResponse = <T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  source: string
+): T => {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+  report(source, result.error);
+  throw new ApiValidationError(source);
+};
+
+// Checks list items one by one and leaves out the ones that do not match,
+// so one malformed record cannot take down a whole table
+export const parseApiList = <T>(
+  schema: z.ZodType<T>,
+  items: unknown[],
+  source: string
+): T[] => {
+  const valid: T[] = [];
+  let hidden = 0;
+  items.forEach((item) => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data);
+    } else {
+      hidden++;
+      report(source, result.error, "[*]");
+    }
+  });
+  if (hidden > 0 && !isDev && !warnedSources.has(source)) {
+    warnedSources.add(source);
+    toast.error(
+      `${hidden} record${hidden === 1 ? "" : "s"} could not be loaded and ${
+        hidden === 1 ? "is" : "are"
+      } hidden`
+    );
+  }
+  return valid;
+};
+
+// For mutation results: the write has already happened, so a mismatch is
+// reported and gives null (callers skip their cache updates) rather than an
+// error
+export const checkApiResponse = <T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  source: string
+): T | null => {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+  report(source, result.error);
+  return null;
+};
@@ -0,0 +1,23 @@
+import { isAxiosError } from "axios";
+import { getApiErrorMessage } from "@/lib/apiErrors";
+
+// Seconds the API asks us to wait after a 429, read from Retry-After
+export const getRetryAfterSeconds = (error: unknown) => {
+  if (!isAxiosError(error) || error.response?.status !== 429) return null;
+  const header = Number(error.response.headers?.["retry-after"]);
+  return Number.isFinite(header) && header > 0 ? Math.ceil(header) : 60;
+};
+
+export const formatWait = (seconds: number) =>
+  seconds >= 60
+    ? `${Math.ceil(seconds / 60)} minute${seconds > 60 ? "s" : ""}`
+    : `${seconds} second${seconds === 1 ? "" : "s"}`;
+
+// Message for auth form errors, with a clearer one when rate limited
+export const getAuthErrorMessage = (error: unknown, fallback: string) => {
+  const retryAfter = getRetryAfterSeconds(error);
+  if (retryAfter) {
+    return `Too many attempts. Please try again in ${formatWait(retryAfter)}.`;
+  }
+  return getApiErrorMessage(error, fallback);
+};
@@ -0,0 +1,246 @@
+import { isPointInRing, planarArea, Point } from "@/lib/geometry";
+
+export type DrawingUnit =
+  | "FEET"
+  | "METER"
+  | "INCH"
+  | "MILLIMETER"
+  | "CENTIMETER";
+
+export const METERS_PER_DRAWING_UNIT: Record<DrawingUnit, number> = {
+  FEET: 0.3048,
+  METER: 1,
+  INCH: 0.0254,
+  MILLIMETER: 0.001,
+  CENTIMETER: 0.01,
+};
+
+// $INSUNITS header codes for the units we support
+const INSUNITS: Record<number, DrawingUnit> = {
+  1: "INCH",
+  2: "FEET",
+  4: "MILLIMETER",
+  5: "CENTIMETER",
+  6: "METER",
+};
+
+export interface DxfPolyline {
+  layer: string;
+  ring: Point[];
+}
+
+export interface DxfLabel {
+  layer: string;
+  text: string;
+  point: Point;
+}
+
+export interface DxfDrawing {
+  units?: DrawingUnit;
+  layers: string[];
+  polylines: DxfPolyline[];
+  labels: DxfLabel[];
+}
+
+type Pair = { code: number; value: string };
+
+const readPairs = (text: string): Pair[] => {
+  const lines = text.split(/\r?\n/);
+  const pairs: Pair[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    pairs.push({ code: Number(lines[i].trim()), value: lines[i + 1].trim() });
+  }
+  return pairs;
+};
+
+// Strips MTEXT inline formatting such as {\fArial;A-12} and \P breaks
+const cleanMText = (value: string) =>
+  value
+    .replace(/\\P/g, " ")
+    .replace(/\\[A-Za-z][^;]*;/g, "")
+    .replace(/[{}]/g, "")
+    .trim();
+
+// Splits the ENTITIES section into one group-code list per entity
+const readEntities = (pairs: Pair[]) => {
+  const entities: { type: string; pairs: Pair[] }[] = [];
+  let inEntities = false;
+  let current: { type: string; pairs: Pair[] } | null = null;
+
+  for (let i = 0; i < pairs.length; i++) {
+    const { code, value } = pairs[i];
+    if (code === 2 && pairs[i - 1]?.value === "SECTION") {
+      inEntities = value === "ENTITIES";
+      continue;
+    }
+    if (!inEntities) continue;
+    if (code === 0) {
+      if (current) entities.push(current);
+      if (value === "ENDSEC") {
+        inEntities = false;
+        current = null;
+        continue;
+      }
+      current = { type: value, pairs: [] };
+    } else {
+      current?.pairs.push({ code, value });
+    }
+  }
+  if (current) entities.push(current);
+  return entities;
+};
+
+const getValue = (pairs: Pair[], code: number) =>
+  pairs.find((p) => p.code === code)?.value;
+
+const readUnits = (pairs: Pair[]): DrawingUnit | undefined => {
+  const index = pairs.findIndex((p) => p.code === 9 && p.value === "$INSUNITS");
+  if (index === -1) return undefined;
+  return INSUNITS[Number(pairs[index + 1]?.value)];
+};
+
+export const parseDxf = (text: string): DxfDrawing => {
+  const pairs = readPairs(text);
+  if (!pairs.some((p) => p.code === 0 && p.value === "SECTION")) {
+    throw new Error("File is not an ASCII DXF drawing");
+  }
+
+  const entities = readEntities(pairs);
+  const polylines: DxfPolyline[] = [];
+  const labels: DxfLabel[] = [];
+  const layers = new Set<string>();
+
+  for (let i = 0; i < entities.length; i++) {
+    const { type, pairs: group } = entities[i];
+    const layer = getValue(group, 8) ?? "0";
+
+    if (type === "LWPOLYLINE") {
+      layers.add(layer);
+      const closed = (Number(getValue(group, 70) ?? 0) & 1) === 1;
+      if (!closed) continue;
+      const xs = group.filter((p) => p.code === 10).map((p) => Number(p.value));
+      const ys = group.filter((p) => p.code === 20).map((p) => Number(p.value));
+      polylines.push({ layer, ring: xs.map((x, j) => [x, ys[j]]) });
+    } else if (type === "POLYLINE") {
+      // Legacy polylines list their corners as following VERTEX entities
+      layers.add(layer);
+      const closed = (Number(getValue(group, 70) ?? 0) & 1) === 1;
+      const ring: Point[] = [];
+      while (entities[i + 1]?.type === "VERTEX") {
+        const vertex = entities[++i].pairs;
+        ring.push([Number(getValue(vertex, 10)), Number(getValue(vertex, 20))]);
+      }
+      if (closed) polylines.push({ layer, ring });
+    } else if (type === "TEXT" || type === "MTEXT") {
+      layers.add(layer);
+      const raw =
+        type === "MTEXT"
+          ? group
+              .filter((p) => p.code === 3 || p.code === 1)
+              .map((p) => p.value)
+              .join("")
+          : getValue(group, 1) ?? "";
+      const textValue = type === "MTEXT" ? cleanMText(raw) : raw.trim();
+      if (!textValue) continue;
+      // Justified TEXT is anchored at its second alignment point
+      const aligned =
+        type === "TEXT" && getValue(group, 11) !== undefined
+          ? [Number(getValue(group, 11)), Number(getValue(group, 21))]
+          : [Number(getValue(group, 10)), Number(getValue(group, 20))];
+      labels.push({ layer, text: textValue, point: aligned as Point });
+    }
+  }
+
+  return {
+    units: readUnits(pairs),
+    layers: Array.from(layers).sort(),
+    polylines: polylines.filter((p) => p.ring.length >= 3),
+    labels,
+  };
+};
+
+export interface DxfPlotPair {
+  plotNumber: string;
+  ring: Point[];
+  area: number;
+}
+
+// Why an outline could not be turned into a plot: it holds several labels,
+// it is drawn around other outlines (e.g. a block boundary) or its plot
+// number is used by another outline too
+export type DxfAmbiguity = "multipleLabels" | "enclosing" | "duplicate";
+
+export interface DxfPairing {
+  pairs: DxfPlotPair[];
+  unlabeled: Point[][];
+  ambiguous: { ring: Point[]; texts: string[]; reason: DxfAmbiguity }[];
+  orphanLabels: DxfLabel[];
+}
+
+const getCentroid = (ring: Point[]): Point => [
+  ring.reduce((sum, p) => sum + p[0], 0) / ring.length,
+  ring.reduce((sum, p) => sum + p[1], 0) / ring.length,
+];
+
+// Pairs every closed polyline on one layer with the single label inside it.
+// Outlines around other outlines and repeated plot numbers are reported
+// instead of paired, so no plot number is created twice
+export const pairDxfPlots = (
+  drawing: DxfDrawing,
+  polylineLayer: string,
+  labelLayer: string
+): DxfPairing => {
+  const rings = drawing.polylines
+    .filter((p) => p.layer === polylineLayer)
+    .map((p) => ({ ring: p.ring, area: planarArea(p.ring) }));
+  const labels = drawing.labels.filter((l) => l.layer === labelLayer);
+  const used = new Set<DxfLabel>();
+  const result: DxfPairing = {
+    pairs: [],
+    unlabeled: [],
+    ambiguous: [],
+    orphanLabels: [],
+  };
+  const candidates = new Map<string, DxfPlotPair[]>();
+
+  rings.forEach(({ ring, area }, i) => {
+    const inside = labels.filter((label) => isPointInRing(label.point, ring));
+    inside.forEach((label) => used.add(label));
+    const texts = inside.map((l) => l.text);
+    const encloses = rings.some(
+      (other, j) =>
+        j !== i &&
+        other.area < area &&
+        isPointInRing(getCentroid(other.ring), ring)
+    );
+    if (encloses) {
+      result.ambiguous.push({ ring, texts, reason: "enclosing" });
+    } else if (inside.length === 0) {
+      result.unlabeled.push(ring);
+    } else if (inside.length > 1) {
+      result.ambiguous.push({ ring, texts, reason: "multipleLabels" });
+    } else {
+      const key = inside[0].text.trim().toUpperCase();
+      candidates.set(key, [
+        ...(candidates.get(key) ?? []),
+        { plotNumber: inside[0].text, ring, area },
+      ]);
+    }
+  });
+
+  candidates.forEach((group) => {
+    if (group.length === 1) {
+      result.pairs.push(group[0]);
+    } else {
+      group.forEach(({ plotNumber, ring }) =>
+        result.ambiguous.push({
+          ring,
+          texts: [plotNumber],
+          reason: "duplicate",
+        })
+      );
+    }
+  });
+  result.orphanLabels = labels.filter((label) => !used.has(label));
+  return result;
+};
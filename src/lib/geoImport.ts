@@ -0,0 +1,208 @@
+import z from "zod";
+import { getOuterRing, Point, ringAreaInSqMeters } from "@/lib/geometry";
+import { Boundaries } from "@/types/project.types";
+
+export interface ImportedFeature {
+  // Position in the source file, used to label features without a name
+  index: number;
+  properties: Record<string, string>;
+  boundaries?: Boundaries;
+  areaInSqMeters?: number;
+  error?: string;
+}
+
+// Positions may carry an altitude after [lng, lat]
+const ringSchema = z.array(z.array(z.number()).min(2));
+const polygonSchema = z.object({
+  type: z.literal("Polygon"),
+  coordinates: z.array(ringSchema).min(1),
+});
+const multiPolygonSchema = z.object({
+  type: z.literal("MultiPolygon"),
+  coordinates: z.array(z.array(ringSchema).min(1)),
+});
+const geometrySchema = z.looseObject({ type: z.string() });
+const featureSchema = z.looseObject({
+  properties: z.record(z.string(), z.unknown()).nullish(),
+  geometry: geometrySchema.nullish(),
+});
+
+type GeoJSONGeometry = z.infer<typeof geometrySchema>;
+
+const isLngLat = ([lng, lat]: Point) =>
+  Number.isFinite(lng) &&
+  Number.isFinite(lat) &&
+  lng >= -180 &&
+  lng <= 180 &&
+  lat >= -90 &&
+  lat <= 90;
+
+// Validates an outer ring and wraps it as a feature, or records why not
+const toFeature = (
+  index: number,
+  properties: Record<string, string>,
+  ring: Point[] | null,
+  error?: string
+): ImportedFeature => {
+  if (!ring) {
+    return { index, properties, error: error ?? "Missing geometry" };
+  }
+  const boundaries: Boundaries = { type: "Polygon", coordinates: [ring] };
+  const points = getOuterRing(boundaries);
+  if (points.length < 3) {
+    return { index, properties, error: "Polygon has fewer than 3 corners" };
+  }
+  if (!points.every(isLngLat)) {
+    return {
+      index,
+      properties,
+      error: "Coordinates are not longitude/latitude (WGS84)",
+    };
+  }
+  const areaInSqMeters = ringAreaInSqMeters(points);
+  if (areaInSqMeters === 0) {
+    return { index, properties, error: "Polygon has zero area" };
+  }
+  return {
+    index,
+    properties,
+    boundaries: {
+      type: "Polygon",
+      coordinates: [[...points, points[0]]],
+    },
+    areaInSqMeters,
+  };
+};
+
+const stringifyProperties = (
+  properties?: Record<string, unknown> | null
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(properties ?? {})
+      .filter(([, value]) => value !== null && typeof value !== "object")
+      .map(([key, value]) => [key, String(value).trim()])
+  );
+
+const toRing = (positions: number[][]): Point[] =>
+  positions.map(([lng, lat]) => [lng, lat]);
+
+const getGeoJSONRing = (
+  geometry?: GeoJSONGeometry | null
+): { ring: Point[] | null; error?: string } => {
+  if (!geometry) return { ring: null };
+  if (geometry.type === "Polygon") {
+    const polygon = polygonSchema.safeParse(geometry);
+    if (!polygon.success) {
+      return { ring: null, error: "Polygon coordinates are malformed" };
+    }
+    return { ring: toRing(polygon.data.coordinates[0]) };
+  }
+  if (geometry.type === "MultiPolygon") {
+    const multiPolygon = multiPolygonSchema.safeParse(geometry);
+    if (!multiPolygon.success) {
+      return { ring: null, error: "MultiPolygon coordinates are malformed" };
+    }
+    const polygons = multiPolygon.data.coordinates;
+    if (polygons.length !== 1) {
+      return {
+        ring: null,
+        error: `MultiPolygon with ${polygons.length} parts is not supported`,
+      };
+    }
+    return { ring: toRing(polygons[0][0]) };
+  }
+  return { ring: null, error: `${geometry.type} is not a polygon` };
+};
+
+export const parseGeoJSON = (text: string): ImportedFeature[] => {
+  const json = JSON.parse(text);
+  const features: unknown[] =
+    json?.type === "FeatureCollection"
+      ? json.features
+      : json?.type === "Feature"
+      ? [json]
+      : [{ type: "Feature", properties: {}, geometry: json }];
+  if (!Array.isArray(features)) {
+    throw new Error("File is not valid GeoJSON");
+  }
+
+  // A malformed feature is reported on its own instead of failing the file
+  return features.map((item, index) => {
+    const feature = featureSchema.safeParse(item);
+    if (!feature.success) {
+      return toFeature(index, {}, null, "Not a valid GeoJSON feature");
+    }
+    const { ring, error } = getGeoJSONRing(feature.data.geometry);
+    return toFeature(
+      index,
+      stringifyProperties(feature.data.properties),
+      ring,
+      error
+    );
+  });
+};
+
+const parseKMLCoordinates = (text: string): Point[] =>
+  text
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => {
+      const [lng, lat] = tuple.split(",").map(Number);
+      return [lng, lat] as Point;
+    });
+
+export const parseKML = (text: string): ImportedFeature[] => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("File is not valid KML");
+  }
+
+  return Array.from(doc.getElementsByTagName("Placemark")).map(
+    (placemark, index) => {
+      const properties: Record<string, string> = {};
+      const name = placemark.getElementsByTagName("name")[0]?.textContent;
+      if (name) properties.name = name.trim();
+      // <ExtendedData> carries attributes as <Data> or schema <SimpleData>
+      Array.from(placemark.getElementsByTagName("Data")).forEach((data) => {
+        const key = data.getAttribute("name");
+        const value = data.getElementsByTagName("value")[0]?.textContent;
+        if (key && value != null) properties[key] = value.trim();
+      });
+      Array.from(placemark.getElementsByTagName("SimpleData")).forEach(
+        (data) => {
+          const key = data.getAttribute("name");
+          if (key) properties[key] = (data.textContent ?? "").trim();
+        }
+      );
+
+      const polygons = placemark.getElementsByTagName("Polygon");
+      if (polygons.length === 0) {
+        return toFeature(index, properties, null, "Placemark has no polygon");
+      }
+      if (polygons.length > 1) {
+        return toFeature(
+          index,
+          properties,
+          null,
+          `MultiGeometry with ${polygons.length} polygons is not supported`
+        );
+      }
+      const outer = polygons[0]
+        .getElementsByTagName("outerBoundaryIs")[0]
+        ?.getElementsByTagName("coordinates")[0]?.textContent;
+      return toFeature(
+        index,
+        properties,
+        outer ? parseKMLCoordinates(outer) : null
+      );
+    }
+  );
+};
+
+// Reads a .geojson/.json or .kml file picked in the browser
+export const parseGeoFile = async (file: File): Promise<ImportedFeature[]> => {
+  const text = await file.text();
+  if (/\.kml$/i.test(file.name)) return parseKML(text);
+  if (/\.(geo)?json$/i.test(file.name)) return parseGeoJSON(text);
+  throw new Error("Unsupported file type. Use GeoJSON or KML.");
+};
@@ -0,0 +1,265 @@
+import {
+  Boundaries,
+  BoundarySpace,
+  CanvasPosition,
+  Georeference,
+  PlotAreaUnit,
+} from "@/types/project.types";
+
+export type Point = [number, number];
+
+// Builds a GeoJSON Polygon from an open list of vertices, closing the ring
+export const toPolygon = (points: Point[]): Boundaries => {
+  const ring = points.map(([x, y]) => [x, y]);
+  const [first] = points;
+  const last = points[points.length - 1];
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+    ring.push([first[0], first[1]]);
+  }
+  return { type: "Polygon", coordinates: [ring] };
+};
+
+// Returns the outer ring of a polygon without the closing vertex
+export const getOuterRing = (boundaries?: Boundaries): Point[] => {
+  const ring = boundaries?.coordinates?.[0] ?? [];
+  const points = ring.map(([x, y]) => [x, y] as Point);
+  if (points.length > 1) {
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (first[0] === last[0] && first[1] === last[1]) points.pop();
+  }
+  return points;
+};
+
+// [a, b, c, d, e, f] mapping (x, y) to (a*x + b*y + c, d*x + e*y + f)
+export type AffineTransform = [number, number, number, number, number, number];
+
+export const applyAffine = (t: AffineTransform, [x, y]: Point): Point => [
+  t[0] * x + t[1] * y + t[2],
+  t[3] * x + t[4] * y + t[5],
+];
+
+export const invertAffine = (t: AffineTransform): AffineTransform | null => {
+  const [a, b, c, d, e, f] = t;
+  const det = a * e - b * d;
+  if (Math.abs(det) < 1e-18) return null;
+  return [
+    e / det,
+    -b / det,
+    (b * f - c * e) / det,
+    -d / det,
+    a / det,
+    (c * d - a * f) / det,
+  ];
+};
+
+const solve3 = (m: number[][], r: number[]): number[] | null => {
+  const det = (x: number[][]) =>
+    x[0][0] * (x[1][1] * x[2][2] - x[1][2] * x[2][1]) -
+    x[0][1] * (x[1][0] * x[2][2] - x[1][2] * x[2][0]) +
+    x[0][2] * (x[1][0] * x[2][1] - x[1][1] * x[2][0]);
+  const d = det(m);
+  if (Math.abs(d) < 1e-12) return null;
+  return [0, 1, 2].map(
+    (col) =>
+      det(m.map((row, i) => row.map((v, j) => (j === col ? r[i] : v)))) / d
+  );
+};
+
+// Least-squares affine fit from at least three non-collinear point pairs.
+// Coordinates are centred first so pixel and degree magnitudes stay comparable.
+export const fitAffine = (
+  pairs: { source: Point; target: Point }[]
+): AffineTransform | null => {
+  if (pairs.length < 3) return null;
+  const n = pairs.length;
+  const sx = pairs.reduce((s, p) => s + p.source[0], 0) / n;
+  const sy = pairs.reduce((s, p) => s + p.source[1], 0) / n;
+  const tx = pairs.reduce((s, p) => s + p.target[0], 0) / n;
+  const ty = pairs.reduce((s, p) => s + p.target[1], 0) / n;
+
+  const m = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  const ru = [0, 0, 0];
+  const rv = [0, 0, 0];
+  for (const { source, target } of pairs) {
+    const row = [source[0] - sx, source[1] - sy, 1];
+    const u = target[0] - tx;
+    const v = target[1] - ty;
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) m[i][j] += row[i] * row[j];
+      ru[i] += row[i] * u;
+      rv[i] += row[i] * v;
+    }
+  }
+
+  const u = solve3(m, ru);
+  const v = solve3(m, rv);
+  if (!u || !v) return null;
+  // Fold the centring offsets back into the translation terms
+  return [
+    u[0],
+    u[1],
+    u[2] + tx - u[0] * sx - u[1] * sy,
+    v[0],
+    v[1],
+    v[2] + ty - v[0] * sx - v[1] * sy,
+  ];
+};
+
+// Approximate ground distance in metres between two [lng, lat] points
+export const distanceInMeters = ([lng1, lat1]: Point, [lng2, lat2]: Point) => {
+  const latRad = (((lat1 + lat2) / 2) * Math.PI) / 180;
+  const dx = (lng2 - lng1) * 111320 * Math.cos(latRad);
+  const dy = (lat2 - lat1) * 110540;
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+// Corners of a (possibly rotated) canvas rectangle, rotated about its centre
+export const canvasPositionToRing = ({
+  x,
+  y,
+  width,
+  height,
+  rotation = 0,
+}: CanvasPosition): Point[] => {
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return (
+    [
+      [x, y],
+      [x + width, y],
+      [x + width, y + height],
+      [x, y + height],
+    ] as Point[]
+  ).map(([px, py]) => [
+    cx + (px - cx) * cos - (py - cy) * sin,
+    cy + (px - cx) * sin + (py - cy) * cos,
+  ]);
+};
+
+// Forward (source -> [lng, lat]) transform for a stored georeference
+export const getGeoreferenceTransform = (
+  georeference?: Georeference
+): AffineTransform | null =>
+  georeference ? fitAffine(georeference.controlPoints) : null;
+
+// Outlines saved before their space was recorded are [lng, lat] once the
+// project is georeferenced and site plan pixels before that
+export const getBoundarySpace = (
+  plot: { boundaries?: Boundaries; boundarySpace?: BoundarySpace },
+  georeference?: Georeference
+): BoundarySpace | null => {
+  if (!plot.boundaries) return null;
+  return plot.boundarySpace ?? (georeference ? "lngLat" : "sitePlan");
+};
+
+// A plot's outline in site plan or canvas coordinates, projecting [lng, lat]
+// back through the georeference when it was fitted from that source. Empty
+// when the outline cannot be expressed there.
+export const getRingInSpace = (
+  plot: { boundaries?: Boundaries; boundarySpace?: BoundarySpace },
+  space: Exclude<BoundarySpace, "lngLat">,
+  georeference?: Georeference
+): Point[] => {
+  const stored = getBoundarySpace(plot, georeference);
+  const ring = getOuterRing(plot.boundaries);
+  if (stored === space) return ring;
+  if (stored !== "lngLat" || georeference?.source !== space) return [];
+  const forward = getGeoreferenceTransform(georeference);
+  const inverse = forward && invertAffine(forward);
+  return inverse ? ring.map((p) => applyAffine(inverse, p)) : [];
+};
+
+const EARTH_RADIUS = 6378137;
+
+// Geodesic area of a [lng, lat] ring in square metres (spherical excess)
+export const ringAreaInSqMeters = (ring: Point[]) => {
+  if (ring.length < 3) return 0;
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  let total = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [lng1, lat1] = ring[i];
+    const [lng2, lat2] = ring[(i + 1) % ring.length];
+    total += rad(lng2 - lng1) * (2 + Math.sin(rad(lat1)) + Math.sin(rad(lat2)));
+  }
+  return Math.abs((total * EARTH_RADIUS * EARTH_RADIUS) / 2);
+};
+
+export const SQ_METERS_PER_UNIT: Record<PlotAreaUnit, number> = {
+  SQ_FT: 0.09290304,
+  SQ_METER: 1,
+  SQ_YARDS: 0.83612736,
+  ACRES: 4046.8564224,
+};
+
+export const convertSqMeters = (sqMeters: number, unit: PlotAreaUnit) =>
+  Math.round((sqMeters / SQ_METERS_PER_UNIT[unit]) * 100) / 100;
+
+// Shoelace area of a planar ring, in squared source units
+export const planarArea = (ring: Point[]) => {
+  let total = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    total += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(total / 2);
+};
+
+// Ray-casting test for a point inside a planar ring
+export const isPointInRing = ([px, py]: Point, ring: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Rectangle aligned with the ring's longest edge that encloses the ring,
+// expressed as a canvas position rotated about its centre
+export const ringToCanvasPosition = (ring: Point[]): CanvasPosition => {
+  let angle = 0;
+  let longest = 0;
+  ring.forEach(([x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    if (length > longest) {
+      longest = length;
+      angle = Math.atan2(y2 - y1, x2 - x1);
+    }
+  });
+
+  const cos = Math.cos(-angle);
+  const sin = Math.sin(-angle);
+  const local = ring.map(([x, y]) => [x * cos - y * sin, x * sin + y * cos]);
+  const xs = local.map((p) => p[0]);
+  const ys = local.map((p) => p[1]);
+  const width = Math.max(...xs) - Math.min(...xs);
+  const height = Math.max(...ys) - Math.min(...ys);
+  const lcx = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const lcy = (Math.max(...ys) + Math.min(...ys)) / 2;
+  // Rotate the local centre back into source space
+  const cx = lcx * Math.cos(angle) - lcy * Math.sin(angle);
+  const cy = lcx * Math.sin(angle) + lcy * Math.cos(angle);
+
+  let rotation = Math.round(((angle * 180) / Math.PI) * 100) / 100;
+  rotation = ((rotation % 360) + 360) % 360;
+  return {
+    x: cx - width / 2,
+    y: cy - height / 2,
+    width,
+    height,
+    rotation,
+  };
+};
@@ -0,0 +1,55 @@
+import { TeamRole } from "@/types/team.types";
+
+export type Permission =
+  | "project.create"
+  | "project.edit"
+  | "project.delete"
+  // Creating, editing, moving and importing plots and blocks
+  | "plot.edit"
+  | "plot.status"
+  | "plot.delete"
+  // Pricing rules, price revisions and price fields on existing plots
+  | "pricing.edit"
+  | "booking.manage"
+  | "analytics.view"
+  | "team.manage";
+
+const ROLE_PERMISSIONS: Record<TeamRole, readonly Permission[]> = {
+  owner: [
+    "project.create",
+    "project.edit",
+    "project.delete",
+    "plot.edit",
+    "plot.status",
+    "plot.delete",
+    "pricing.edit",
+    "booking.manage",
+    "analytics.view",
+    "team.manage",
+  ],
+  manager: [
+    "project.create",
+    "project.edit",
+    "plot.edit",
+    "plot.status",
+    "plot.delete",
+    "booking.manage",
+    "analytics.view",
+  ],
+  sales: ["plot.status", "booking.manage", "analytics.view"],
+  viewer: ["analytics.view"],
+};
+
+export const hasPermission = (role: TeamRole, permission: Permission) =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+// Pages that need more than a signed in account. The API enforces the same
+// rules; these only keep people away from screens they cannot use
+const ROUTE_PERMISSIONS: { pattern: RegExp; permission: Permission }[] = [
+  { pattern: /^\/project\/[^/]+\/edit/, permission: "project.edit" },
+  { pattern: /^\/analytics/, permission: "analytics.view" },
+  { pattern: /^\/team/, permission: "team.manage" },
+];
+
+export const getRoutePermission = (pathname: string) =>
+  ROUTE_PERMISSIONS.find(({ pattern }) => pattern.test(pathname))?.permission;
@@ -0,0 +1,116 @@
+import {
+  Facing,
+  Plot,
+  PlotStatus,
+  PlotType,
+  PriceRevisionPlot,
+  PricingRule,
+} from "@/types/project.types";
+
+export interface PricingInput {
+  area: number;
+  pricePerUnit: number;
+  plotType?: PlotType;
+  facing?: Facing;
+  frontRoadWidth?: number;
+}
+
+export interface PriceBreakdown {
+  basePrice: number;
+  charges: { name: string; amount: number }[];
+  price: number;
+}
+
+export const matchesPricingRule = (
+  plot: PricingInput,
+  rule: PricingRule
+): boolean => {
+  switch (rule.criterion) {
+    case "plotType":
+      return !!plot.plotType && !!rule.values?.includes(plot.plotType);
+    case "facing":
+      return !!plot.facing && !!rule.values?.includes(plot.facing);
+    case "frontRoadWidth":
+      return (
+        plot.frontRoadWidth !== undefined &&
+        rule.minRoadWidth !== undefined &&
+        plot.frontRoadWidth >= rule.minRoadWidth
+      );
+    default:
+      return false;
+  }
+};
+
+// Charges are each worked out on the base price, so rule order never matters
+export const calculatePlotPrice = (
+  plot: PricingInput,
+  rules: PricingRule[] = []
+): PriceBreakdown => {
+  const basePrice = Math.round(plot.area * plot.pricePerUnit);
+  const charges = rules
+    .filter((rule) => matchesPricingRule(plot, rule))
+    .map((rule) => ({
+      name: rule.name,
+      amount: Math.round(
+        rule.chargeType === "PERCENTAGE"
+          ? (basePrice * rule.amount) / 100
+          : plot.area * rule.amount
+      ),
+    }));
+  return {
+    basePrice,
+    charges,
+    price: basePrice + charges.reduce((sum, c) => sum + c.amount, 0),
+  };
+};
+
+export type PriceChangeType = "PERCENTAGE" | "ABSOLUTE";
+
+export interface PriceRevisionTarget {
+  blockIds: string[];
+  statuses: PlotStatus[];
+  plotTypes: PlotType[];
+  facings: Facing[];
+}
+
+// An empty list in the target means "any" for that attribute
+export const matchesRevisionTarget = (
+  plot: Plot,
+  target: PriceRevisionTarget
+) =>
+  (target.blockIds.length === 0 || target.blockIds.includes(plot.blockId)) &&
+  (target.statuses.length === 0 || target.statuses.includes(plot.status)) &&
+  (target.plotTypes.length === 0 || target.plotTypes.includes(plot.plotType)) &&
+  (target.facings.length === 0 || target.facings.includes(plot.facing));
+
+// Changes pricePerUnit by a percentage or a ₹ amount and re-prices the plot
+// through the project's rules. Plots whose rate would drop to zero or below
+// are left out
+export const revisePlotPrices = (
+  plots: Plot[],
+  target: PriceRevisionTarget,
+  change: { type: PriceChangeType; amount: number },
+  rules: PricingRule[] = []
+): PriceRevisionPlot[] =>
+  plots
+    .filter((plot) => matchesRevisionTarget(plot, target))
+    .map((plot) => {
+      const pricePerUnit =
+        Math.round(
+          (change.type === "PERCENTAGE"
+            ? plot.pricePerUnit * (1 + change.amount / 100)
+            : plot.pricePerUnit + change.amount) * 100
+        ) / 100;
+      return {
+        _id: plot._id,
+        plotNumber: plot.plotNumber,
+        blockId: plot.blockId,
+        status: plot.status,
+        before: { pricePerUnit: plot.pricePerUnit, price: plot.price },
+        after: {
+          pricePerUnit,
+          price: calculatePlotPrice({ ...plot, pricePerUnit }, rules).price,
+        },
+      };
+    })
+    .filter((revision) => revision.after.pricePerUnit > 0);
@@ -0,0 +1,174 @@
+export interface SheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+// RFC 4180 parser: quoted fields may contain commas, quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const toSheetData = (table: string[][]): SheetData => {
+  const nonEmpty = table.filter((row) => row.some((cell) => cell.trim()));
+  const [headerRow = [], ...rows] = nonEmpty;
+  const headers = headerRow.map((h, i) => h.trim() || `Column ${i + 1}`);
+  return {
+    headers,
+    rows: rows.map((row) => headers.map((_, i) => (row[i] ?? "").trim())),
+  };
+};
+
+// Reads the first worksheet of an .xlsx workbook as display text
+const readXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const table: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      cells.push(row.getCell(col).text ?? "");
+    }
+    table[rowNumber - 1] = cells;
+  });
+  return Array.from(table, (row) => row ?? []);
+};
+
+// Reads a .csv or .xlsx file picked in the browser; the first row is headers
+export const readSpreadsheet = async (file: File): Promise<SheetData> => {
+  if (/\.csv$/i.test(file.name)) {
+    return toSheetData(parseCsv(await file.text()));
+  }
+  if (/\.xlsx$/i.test(file.name)) {
+    return toSheetData(await readXlsx(await file.arrayBuffer()));
+  }
+  throw new Error("Unsupported file type. Use CSV or XLSX.");
+};
+
+export type SheetFormat = "csv" | "xlsx";
+
+export interface SheetColumn {
+  header: string;
+  // Currency columns hold numbers, shown as ₹ amounts in both formats
+  currency?: boolean;
+  width?: number;
+}
+
+const formatCurrency = (value: number) =>
+  `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (
+  columns: SheetColumn[],
+  rows: (string | number)[][]
+): string =>
+  [
+    columns.map((c) => escapeCsv(c.header)),
+    ...rows.map((row) =>
+      row.map((value, i) =>
+        escapeCsv(
+          typeof value === "number" && columns[i]?.currency
+            ? formatCurrency(value)
+            : String(value)
+        )
+      )
+    ),
+  ]
+    .map((cells) => cells.join(","))
+    .join("\r\n");
+
+const toXlsx = async (
+  columns: SheetColumn[],
+  rows: (string | number)[][]
+): Promise<ArrayBuffer> => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Sheet1");
+  sheet.columns = columns.map((c) => ({
+    header: c.header,
+    width: c.width ?? 16,
+    style: c.currency ? { numFmt: '"₹"#,##,##0.00' } : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.addRows(rows);
+  return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Builds a CSV or XLSX file in the browser and starts its download
+export const downloadSpreadsheet = async ({
+  fileName,
+  format,
+  columns,
+  rows,
+}: {
+  fileName: string;
+  format: SheetFormat;
+  columns: SheetColumn[];
+  rows: (string | number)[][];
+}) => {
+  if (format === "csv") {
+    // The BOM makes Excel read the ₹ sign as UTF-8
+    const blob = new Blob(["\uFEFF", toCsv(columns, rows)], {
+      type: "text/csv;charset=utf-8",
+    });
+    downloadBlob(blob, `${fileName}.csv`);
+    return;
+  }
+  const buffer = await toXlsx(columns, rows);
+  downloadBlob(
+    new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    }),
+    `${fileName}.xlsx`
+  );
+};
@@ -1,10 +1,15 @@
 "use client";
 import React, { useEffect, useState } from "react";
 import { useAuthStore } from "@/stores/authStore";
-import { useRouter } from "next/navigation";
-import { Loader2 } from "lucide-react";
+import { usePathname, useRouter } from "next/navigation";
+import Link from "next/link";
+import { Loader2, ShieldAlert } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import { isAxiosError } from "axios";
 import useAxios from "@/hooks/useAxios";
+import { usePermissions } from "@/hooks/usePermissions";
+import { getRoutePermission } from "@/lib/permissions";
+import { Button } from "@/components/ui/button";
 
 const ProtectedPage = ({ children }: { children: React.ReactNode }) => {
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
@@ -13,14 +18,16 @@ const ProtectedPage = ({ children }: { children: React.ReactNode }) => {
   const logout = useAuthStore((state) => state.logout);
   const hasHydrated = useAuthStore((state) => state.hasHydrated);
   const router = useRouter();
+  const pathname = usePathname();
+  const { can } = usePermissions();
   const api = useAxios();
   const [shouldRender, setShouldRender] = useState(false);
 
-  const { data: developerData, isError } = useQuery({
+  const { data: developerData, error } = useQuery({
     queryKey: ["developerProfile"],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!isAuthenticated) return null;
-      return (await api.get("/developers/me")).data.data;
+      return (await api.get("/developers/me", { signal })).data.data;
     },
     enabled: hasHydrated && isAuthenticated,
     retry: false,
@@ -31,12 +38,14 @@ const ProtectedPage = ({ children }: { children: React.ReactNode }) => {
     if (developerData) {
       setDeveloper(developerData);
     }
-    if (isError) {
-      // If unauthorized or error, logout
+    // 401s are handled by the API client. A 403 on the developer's own
+    // profile means the account itself is blocked; other errors such as a
+    // dropped connection should not end the session
+    if (isAxiosError(error) && error.response?.status === 403) {
       logout();
       router.push("/login");
     }
-  }, [developerData, isError, setDeveloper, logout, router]);
+  }, [developerData, error, setDeveloper, logout, router]);
 
   useEffect(() => {
     if (hasHydrated) {
@@ -66,6 +75,25 @@ const ProtectedPage = ({ children }: { children: React.ReactNode }) => {
     );
   }
 
+  const requiredPermission = getRoutePermission(pathname);
+  if (requiredPermission && !can(requiredPermission)) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen gap-4 text-center">
+        <ShieldAlert className="h-12 w-12 text-muted-foreground" />
+        <div className="space-y-1">
+          <h1 className="text-xl font-semibold">You don&apos;t have access</h1>
+          <p className="text-sm text-muted-foreground">
+            Your role does not allow this page. Ask the account owner if you
+            need it.
+          </p>
+        </div>
+        <Button asChild variant="outline">
+          <Link href="/">Back to projects</Link>
+        </Button>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
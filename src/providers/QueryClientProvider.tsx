@@ -1,7 +1,10 @@
 "use client";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 
-const queryClient = new QueryClient();
+// GETs are already retried with backoff by the API client
+const queryClient = new QueryClient({
+  defaultOptions: { queries: { retry: false } },
+});
 export default function QueryClientProviderComponent({
   children,
 }: {
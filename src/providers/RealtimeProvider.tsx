@@ -0,0 +1,9 @@
+"use client";
+import { useRealtimeUpdates } from "@/hooks/useRealtimeUpdates";
+
+const RealtimeProvider = ({ children }: { children: React.ReactNode }) => {
+  useRealtimeUpdates();
+  return <>{children}</>;
+};
+
+export default RealtimeProvider;
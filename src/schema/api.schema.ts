@@ -0,0 +1,315 @@
+import z from "zod";
+import {
+  AREA_UNITS,
+  DIMENSION_UNITS,
+  FACING_OPTS,
+  PLOT_STATUSES,
+  PLOT_TYPES,
+} from "@/schema/plot.schema";
+import {
+  PRICING_CHARGE_TYPES,
+  PRICING_CRITERIA,
+} from "@/schema/project.schema";
+import { BLOCK_STATUSES } from "@/schema/block.schema";
+import {
+  Block,
+  Plot,
+  PriceRevision,
+  Project,
+  ProjectWithStats,
+} from "@/types/project.types";
+import { Booking } from "@/types/booking.types";
+import { RealtimeEvent } from "@/types/realtime.types";
+import { TeamMember } from "@/types/team.types";
+import { TEAM_ROLES } from "@/schema/team.schema";
+
+// Response Schemas
+// These describe what the API sends back, not what forms accept. Each one is
+// annotated with its TypeScript type so the two cannot drift apart. Objects
+// are loose, so new fields from the backend pass through untouched
+
+// Mongo leaves optional fields out or sends null; both become undefined
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value) => value ?? undefined);
+
+const addressSchema = z.looseObject({
+  state: z.string(),
+  city: z.string(),
+  address: z.string(),
+  pincode: z.string(),
+});
+
+const coordinateSchema = z.tuple([z.number(), z.number()]);
+
+const pricingRuleSchema = z.looseObject({
+  name: z.string(),
+  criterion: z.enum(PRICING_CRITERIA),
+  values: optional(z.array(z.enum([...PLOT_TYPES, ...FACING_OPTS]))),
+  minRoadWidth: optional(z.number()),
+  chargeType: z.enum(PRICING_CHARGE_TYPES),
+  amount: z.number(),
+});
+
+export const projectResponseSchema: z.ZodType<Project> = z.looseObject({
+  _id: z.string(),
+  name: z.string(),
+  developerId: z.string(),
+  reraNumber: z.string(),
+  projectType: z.literal("land"),
+  projectUse: z.enum(["residential", "commercial", "agricultural"]),
+  legalStatus: z.enum([
+    "clear_title",
+    "pending_conversion",
+    "encumbrance_note",
+  ]),
+  numberOfPlots: z.number(),
+  address: addressSchema,
+  location: z.looseObject({
+    type: z.literal("Point"),
+    coordinates: coordinateSchema,
+  }),
+  possessionDate: z.string(),
+  description: z.string(),
+  approvalDocuments: z.array(z.string()),
+  images: z.array(z.string()),
+  sitePlan: optional(z.string()),
+  georeference: optional(
+    z.looseObject({
+      source: z.enum(["sitePlan", "canvas", "import"]),
+      controlPoints: z.array(
+        z.looseObject({ source: coordinateSchema, target: coordinateSchema })
+      ),
+    })
+  ),
+  pricingRules: optional(z.array(pricingRuleSchema)),
+  amenities: z.array(z.string()),
+  developmentStatus: z.enum([
+    "ready-to-develop",
+    "ready-to-move",
+    "under-development",
+    "phase-info",
+  ]),
+  projectStatus: z.enum(["draft", "active", "delisted", "completed"]),
+  projectId: optional(z.string()),
+  totalArea: optional(z.number()),
+  totalAreaUnit: optional(
+    z.enum(["SQ_FT", "SQ_METER", "SQ_YARDS", "ACRES", "HECTARE", "BIGHA"])
+  ),
+  priceRange: optional(z.looseObject({ min: z.number(), max: z.number() })),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  bookingTokenAmount: z.number(),
+});
+
+export const plotResponseSchema: z.ZodType<Plot> = z.looseObject({
+  _id: z.string(),
+  projectId: z.string(),
+  blockId: z.string(),
+  plotNumber: z.string(),
+  area: z.number(),
+  areaUnit: z.enum(AREA_UNITS),
+  dimensions: optional(
+    z.looseObject({
+      length: z.number(),
+      width: z.number(),
+      unit: z.enum(DIMENSION_UNITS),
+    })
+  ),
+  price: z.number(),
+  pricePerUnit: z.number(),
+  facing: z.enum(FACING_OPTS),
+  plotType: z.enum(PLOT_TYPES),
+  frontRoadWidth: optional(z.number()),
+  status: z.enum(PLOT_STATUSES),
+  canvasPosition: optional(
+    z.looseObject({
+      x: z.number(),
+      y: z.number(),
+      width: z.number(),
+      height: z.number(),
+      rotation: optional(z.number()),
+    })
+  ),
+  boundaries: optional(
+    z.looseObject({
+      type: z.literal("Polygon"),
+      coordinates: z.array(z.array(z.array(z.number()))),
+    })
+  ),
+  boundarySpace: optional(z.enum(["lngLat", "sitePlan", "canvas"])),
+  bookedBy: optional(z.string()),
+  bookingDate: optional(z.string()),
+  soldDate: optional(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const blockResponseSchema: z.ZodType<Block> = z.looseObject({
+  _id: z.string(),
+  projectId: z.string(),
+  name: z.string(),
+  description: optional(z.string()),
+  status: z.enum(BLOCK_STATUSES),
+  order: optional(z.number()),
+  plotDefaults: optional(
+    z.looseObject({
+      areaUnit: optional(z.enum(AREA_UNITS)),
+      pricePerUnit: optional(z.number()),
+      facing: optional(z.enum(FACING_OPTS)),
+      plotType: optional(z.enum(PLOT_TYPES)),
+    })
+  ),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// Bookings come back with plot, project, broker and developer populated.
+// blockId is not populated today, but an object with an _id is accepted too
+export const bookingResponseSchema: z.ZodType<Booking> = z.looseObject({
+  _id: z.string(),
+  plotId: z.looseObject({
+    _id: z.string(),
+    plotNumber: z.string(),
+    area: z.number(),
+    areaUnit: z.string(),
+    price: z.number(),
+    facing: z.string(),
+    status: z.string(),
+  }),
+  blockId: z
+    .union([z.string(), z.looseObject({ _id: z.string() })])
+    .transform((value) => (typeof value === "string" ? value : value._id)),
+  projectId: z.looseObject({
+    _id: z.string(),
+    name: z.string(),
+    address: addressSchema,
+    projectId: optional(z.string()),
+  }),
+  brokerId: z.looseObject({
+    _id: z.string(),
+    name: z.string(),
+    email: z.string(),
+    phone: z.string(),
+  }),
+  developerId: z.looseObject({
+    _id: z.string(),
+    name: z.string(),
+    email: z.string(),
+  }),
+  customerDetails: z.looseObject({
+    name: z.string(),
+    email: z.string(),
+    phone: z.string(),
+    alternatePhone: optional(z.string()),
+    address: optional(z.string()),
+  }),
+  bookingStatus: z.enum(["pending", "confirmed", "cancelled", "completed"]),
+  bookingDate: z.string(),
+  notes: optional(z.string()),
+  cancelledReason: optional(z.string()),
+  cancelledAt: optional(z.string()),
+  completedAt: optional(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const projectWithStatsResponseSchema: z.ZodType<ProjectWithStats> =
+  z.looseObject({
+    project: projectResponseSchema,
+    plotStats: z.looseObject({
+      available: z.number(),
+      booked: z.number(),
+      reserved: z.number(),
+      sold: z.number(),
+    }),
+  });
+
+const revisedPriceSchema = z.looseObject({
+  pricePerUnit: z.number(),
+  price: z.number(),
+});
+
+export const priceRevisionResponseSchema: z.ZodType<PriceRevision> =
+  z.looseObject({
+    _id: z.string(),
+    projectId: z.string(),
+    description: z.string(),
+    createdBy: optional(z.string()),
+    createdAt: z.string(),
+    rolledBackAt: optional(z.string()),
+    plots: z.array(
+      z.looseObject({
+        _id: z.string(),
+        plotNumber: z.string(),
+        blockId: z.string(),
+        status: z.enum(PLOT_STATUSES),
+        before: revisedPriceSchema,
+        after: revisedPriceSchema,
+      })
+    ),
+  });
+
+export const teamMemberResponseSchema: z.ZodType<TeamMember> = z.looseObject({
+  _id: z.string(),
+  email: z.string(),
+  firstName: optional(z.string()),
+  lastName: optional(z.string()),
+  role: z.enum(TEAM_ROLES),
+  status: z.enum(["invited", "active"]),
+  invitedAt: z.string(),
+  joinedAt: optional(z.string()),
+});
+
+export const teamMembersResponseSchema = z.array(z.unknown());
+
+const paginationSchema = z.looseObject({
+  total: z.number(),
+  page: z.number(),
+  limit: z.number(),
+  totalPages: z.number(),
+});
+
+export const blocksResponseSchema = z.array(z.unknown());
+
+export const priceRevisionsResponseSchema = z.array(z.unknown());
+
+// List payloads keep their items as unknown here; parseApiList checks each
+// item on its own so one bad record does not hide the rest
+export const projectsResponseSchema = z.looseObject({
+  projects: z.array(z.unknown()),
+  pagination: paginationSchema,
+});
+
+export const plotsResponseSchema = z.looseObject({
+  plots: z.array(z.unknown()),
+  pagination: paginationSchema,
+});
+
+export const bookingsResponseSchema = z.looseObject({
+  bookings: z.array(z.unknown()),
+  pagination: z.looseObject({
+    currentPage: z.number(),
+    totalPages: z.number(),
+    totalItems: z.number(),
+    itemsPerPage: z.number(),
+  }),
+});
+
+export const realtimeEventSchema: z.ZodType<RealtimeEvent> =
+  z.discriminatedUnion("type", [
+    z.looseObject({
+      type: z.literal("plot.status"),
+      projectId: z.string(),
+      plotId: z.string(),
+      plotNumber: z.string(),
+      status: z.enum(PLOT_STATUSES),
+    }),
+    z.looseObject({
+      type: z.enum(["booking.created", "booking.updated"]),
+      bookingId: z.string(),
+      projectId: z.string(),
+      plotId: z.string(),
+      plotNumber: z.string(),
+      bookingStatus: z.enum(["pending", "confirmed", "cancelled", "completed"]),
+    }),
+  ]);
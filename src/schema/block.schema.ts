@@ -0,0 +1,21 @@
+import z from "zod";
+import { AREA_UNITS, FACING_OPTS, PLOT_TYPES } from "@/schema/plot.schema";
+
+export const BLOCK_STATUSES = ["active", "inactive", "completed"] as const;
+
+// Block Validation Schemas
+export const blockSchema = z.object({
+  name: z.string().min(1, "Block name is required"),
+  description: z.string().optional(),
+  status: z.enum(BLOCK_STATUSES),
+  plotDefaults: z
+    .object({
+      areaUnit: z.enum(AREA_UNITS).optional(),
+      pricePerUnit: z.coerce.number().positive().optional(),
+      facing: z.enum(FACING_OPTS).optional(),
+      plotType: z.enum(PLOT_TYPES).optional(),
+    })
+    .optional(),
+});
+
+export type BlockFormValues = z.infer<typeof blockSchema>;
@@ -0,0 +1,205 @@
+import z from "zod";
+
+// Plot Enums
+export const AREA_UNITS = ["SQ_FT", "SQ_METER", "SQ_YARDS", "ACRES"] as const;
+export const FACING_OPTS = [
+  "NORTH",
+  "SOUTH",
+  "EAST",
+  "WEST",
+  "NORTH_EAST",
+  "NORTH_WEST",
+  "SOUTH_EAST",
+  "SOUTH_WEST",
+] as const;
+export const PLOT_TYPES = ["CORNER", "ROAD", "REGULAR"] as const;
+export const DIMENSION_UNITS = ["FEET", "METER"] as const;
+
+// Plot Validation Schemas
+export const dimensionSchema = z.object({
+  length: z.coerce.number().positive(),
+  width: z.coerce.number().positive(),
+  unit: z.enum(DIMENSION_UNITS),
+});
+
+export const createPlotSchema = z.object({
+  blockId: z.string().min(1, "Block is required"),
+  plotNumber: z.string().min(1, "Plot number is required"),
+  area: z.coerce.number().positive("Area must be positive"),
+  areaUnit: z.enum(AREA_UNITS),
+  price: z.coerce.number().positive("Price must be positive"),
+  pricePerUnit: z.coerce.number().positive("Price per unit must be positive"),
+  facing: z.enum(FACING_OPTS),
+  plotType: z.enum(PLOT_TYPES).default("REGULAR"),
+  frontRoadWidth: z.coerce.number().positive().optional(),
+  // Blank length and width mean the plot has no recorded dimensions
+  dimensions: z.preprocess(
+    (value) =>
+      value &&
+      typeof value === "object" &&
+      !Number((value as { length?: unknown }).length) &&
+      !Number((value as { width?: unknown }).width)
+        ? undefined
+        : value,
+    dimensionSchema.optional()
+  ),
+});
+
+export type CreatePlotFormValues = z.infer<typeof createPlotSchema>;
+
+export const bulkCreatePlotSchema = z
+  .object({
+    blockId: z.string().min(1, "Block is required"),
+    prefix: z.string().optional(),
+    suffix: z.string().optional(),
+    startNumber: z.coerce.number().int().min(1, "Start number is required"),
+    endNumber: z.coerce.number().int().min(1, "End number is required"),
+    digits: z.coerce.number().int().min(1).max(10).optional().default(1),
+    area: z.coerce.number().positive("Area must be positive"),
+    areaUnit: z.enum(AREA_UNITS),
+    pricePerUnit: z.coerce.number().positive("Price per unit must be positive"),
+    facing: z.enum(FACING_OPTS).default("NORTH"),
+    plotType: z.enum(PLOT_TYPES).default("REGULAR"),
+    frontRoadWidth: z.coerce.number().positive().optional(),
+    dimensions: dimensionSchema.optional(),
+  })
+  .refine((data) => data.endNumber >= data.startNumber, {
+    message: "End number must be greater than or equal to start number",
+    path: ["endNumber"],
+  });
+
+export type BulkCreatePlotFormValues = z.infer<typeof bulkCreatePlotSchema>;
+
+// Spreadsheet Import
+export const PLOT_SHEET_FIELDS = [
+  "plotNumber",
+  "block",
+  "area",
+  "areaUnit",
+  "pricePerUnit",
+  "price",
+  "facing",
+  "plotType",
+  "frontRoadWidth",
+  "length",
+  "width",
+  "dimensionUnit",
+] as const;
+
+export type PlotSheetField = (typeof PLOT_SHEET_FIELDS)[number];
+
+// Every cell is kept as text so the review grid can edit it in place
+export type PlotSheetRow = Record<PlotSheetField, string>;
+
+// Matches sheet spellings like "Sq Ft", "north-east" or "ne" to enum values
+const ENUM_ALIASES: Record<string, string> = {
+  SQFT: "SQ_FT",
+  SQ_FEET: "SQ_FT",
+  SQUARE_FEET: "SQ_FT",
+  SQM: "SQ_METER",
+  SQ_M: "SQ_METER",
+  SQ_MTR: "SQ_METER",
+  SQUARE_METER: "SQ_METER",
+  SQYD: "SQ_YARDS",
+  SQ_YD: "SQ_YARDS",
+  SQ_YARD: "SQ_YARDS",
+  GAJ: "SQ_YARDS",
+  ACRE: "ACRES",
+  N: "NORTH",
+  S: "SOUTH",
+  E: "EAST",
+  W: "WEST",
+  NE: "NORTH_EAST",
+  NW: "NORTH_WEST",
+  SE: "SOUTH_EAST",
+  SW: "SOUTH_WEST",
+  FT: "FEET",
+  FOOT: "FEET",
+  M: "METER",
+  MTR: "METER",
+  METERS: "METER",
+};
+
+const sheetEnum = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.preprocess((value) => {
+    const key = String(value ?? "")
+      .trim()
+      .toUpperCase()
+      .replace(/[\s.-]+/g, "_");
+    return ENUM_ALIASES[key] ?? key;
+  }, z.enum(values, { message: `Must be one of ${values.join(", ")}` }));
+
+const sheetText = z.string().trim();
+// Strips thousands separators and currency symbols; blank cells are undefined
+const toSheetNumber = (value: unknown) => {
+  const cleaned = String(value ?? "").replace(/[,₹\s]/g, "");
+  return cleaned === "" ? undefined : Number(cleaned);
+};
+const sheetNumber = (message: string) =>
+  z.preprocess(toSheetNumber, z.number(message).positive(message));
+const optionalSheetNumber = (message: string) =>
+  z.preprocess(toSheetNumber, z.number(message).positive(message).optional());
+// Blank cells fall back to the import defaults
+const withDefault = <T extends z.ZodTypeAny>(schema: T, fallback: string) =>
+  z.preprocess(
+    (value) => (String(value ?? "").trim() === "" ? fallback : value),
+    schema
+  );
+
+export const createPlotSheetRowSchema = (defaults: {
+  areaUnit: string;
+  facing: string;
+}) =>
+  z
+    .object({
+      plotNumber: sheetText.min(1, "Plot number is required"),
+      block: sheetText,
+      area: sheetNumber("Area must be a positive number"),
+      areaUnit: withDefault(sheetEnum(AREA_UNITS), defaults.areaUnit),
+      pricePerUnit: optionalSheetNumber("Price per unit must be positive"),
+      price: optionalSheetNumber("Price must be positive"),
+      facing: withDefault(sheetEnum(FACING_OPTS), defaults.facing),
+      plotType: withDefault(sheetEnum(PLOT_TYPES), "REGULAR"),
+      frontRoadWidth: optionalSheetNumber("Road width must be positive"),
+      length: optionalSheetNumber("Length must be positive"),
+      width: optionalSheetNumber("Width must be positive"),
+      dimensionUnit: withDefault(sheetEnum(DIMENSION_UNITS), "FEET"),
+    })
+    .refine(
+      (row) => row.price !== undefined || row.pricePerUnit !== undefined,
+      {
+        message: "Either price or price per unit is required",
+        path: ["pricePerUnit"],
+      }
+    )
+    .refine((row) => (row.length === undefined) === (row.width === undefined), {
+      message: "Length and width must be given together",
+      path: ["width"],
+    });
+
+export type PlotSheetRowValues = z.infer<
+  ReturnType<typeof createPlotSheetRowSchema>
+>;
+
+export const PLOT_STATUSES = [
+  "available",
+  "reserved",
+  "booked",
+  "sold",
+] as const;
+
+export const priceRevisionSchema = z
+  .object({
+    blockIds: z.array(z.string()),
+    statuses: z.array(z.enum(PLOT_STATUSES)),
+    plotTypes: z.array(z.enum(PLOT_TYPES)),
+    facings: z.array(z.enum(FACING_OPTS)),
+    changeType: z.enum(["PERCENTAGE", "ABSOLUTE"]),
+    amount: z.coerce.number().refine((n) => n !== 0, "Enter a non-zero change"),
+  })
+  .refine((data) => data.changeType !== "PERCENTAGE" || data.amount > -100, {
+    message: "A decrease must be less than 100%",
+    path: ["amount"],
+  });
+
+export type PriceRevisionFormValues = z.infer<typeof priceRevisionSchema>;
@@ -1,4 +1,5 @@
 import z from "zod";
+import { FACING_OPTS, PLOT_TYPES } from "@/schema/plot.schema";
 
 // Project Validation Schemas
 export const createProjectSchema = z.object({
@@ -39,7 +40,9 @@ export const createProjectSchema = z.object({
     "under-development",
     "phase-info",
   ]),
-  bookingTokenAmount: z.coerce.number().positive("Booking token amount must be positive"),
+  bookingTokenAmount: z.coerce
+    .number()
+    .positive("Booking token amount must be positive"),
   totalArea: z.number().positive().optional(),
   totalAreaUnit: z
     .enum(["SQ_FT", "SQ_METER", "SQ_YARDS", "ACRES", "HECTARE", "BIGHA"])
@@ -96,17 +99,64 @@ export const updateProjectSchema = z.object({
       "phase-info",
     ])
     .optional(),
-  bookingTokenAmount: z.number().positive().optional(),
-  totalArea: z.number().positive().optional(),
+  bookingTokenAmount: z.coerce.number().positive().optional(),
+  totalArea: z.coerce.number().positive().optional(),
   totalAreaUnit: z
     .enum(["SQ_FT", "SQ_METER", "SQ_YARDS", "ACRES", "HECTARE", "BIGHA"])
     .optional(),
-  priceRange: z
-    .object({
-      min: z.number().positive(),
-      max: z.number().positive(),
-    })
-    .optional(),
+  // A blank min and max mean the project has no published price range
+  priceRange: z.preprocess(
+    (value) =>
+      value &&
+      typeof value === "object" &&
+      !Number((value as { min?: unknown }).min) &&
+      !Number((value as { max?: unknown }).max)
+        ? undefined
+        : value,
+    z
+      .object({
+        min: z.coerce.number().positive("Minimum price is required"),
+        max: z.coerce.number().positive("Maximum price is required"),
+      })
+      .refine((range) => range.max >= range.min, {
+        message: "Maximum must be at least the minimum",
+        path: ["max"],
+      })
+      .optional()
+  ),
 });
 
 export type UpdateProjectFormValues = z.infer<typeof updateProjectSchema>;
+
+export const PRICING_CRITERIA = [
+  "plotType",
+  "facing",
+  "frontRoadWidth",
+] as const;
+export const PRICING_CHARGE_TYPES = ["PERCENTAGE", "PER_UNIT"] as const;
+
+export const pricingRuleSchema = z
+  .object({
+    name: z.string().min(1, "Rule name is required"),
+    criterion: z.enum(PRICING_CRITERIA),
+    values: z.array(z.enum([...PLOT_TYPES, ...FACING_OPTS])).optional(),
+    minRoadWidth: z.coerce.number().positive().optional(),
+    chargeType: z.enum(PRICING_CHARGE_TYPES),
+    amount: z.coerce.number().positive("Amount must be positive"),
+  })
+  .refine(
+    (rule) => rule.criterion === "frontRoadWidth" || !!rule.values?.length,
+    { message: "Select at least one value", path: ["values"] }
+  )
+  .refine(
+    (rule) =>
+      rule.criterion !== "frontRoadWidth" || rule.minRoadWidth !== undefined,
+    { message: "Minimum road width is required", path: ["minRoadWidth"] }
+  );
+
+export const pricingRulesSchema = z.object({
+  pricingRules: z.array(pricingRuleSchema),
+  repriceAvailable: z.boolean().default(true),
+});
+
+export type PricingRulesFormValues = z.infer<typeof pricingRulesSchema>;
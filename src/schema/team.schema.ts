@@ -0,0 +1,46 @@
+import z from "zod";
+
+export const TEAM_ROLES = ["owner", "manager", "sales", "viewer"] as const;
+// The owner role belongs to the account holder and cannot be handed out
+export const INVITABLE_ROLES = ["manager", "sales", "viewer"] as const;
+
+export const TEAM_ROLE_LABELS: Record<(typeof TEAM_ROLES)[number], string> = {
+  owner: "Owner",
+  manager: "Manager",
+  sales: "Sales",
+  viewer: "Viewer",
+};
+
+export const ROLE_DESCRIPTIONS: Record<
+  (typeof INVITABLE_ROLES)[number],
+  string
+> = {
+  manager: "Manages projects, blocks and plots. Cannot change prices.",
+  sales: "Updates plot status and handles bookings.",
+  viewer: "Read-only access, including analytics.",
+};
+
+// Team Validation Schemas
+export const inviteMemberSchema = z.object({
+  email: z.email("Invalid email address"),
+  role: z.enum(INVITABLE_ROLES),
+});
+
+export type InviteMemberFormValues = z.infer<typeof inviteMemberSchema>;
+
+export const acceptInviteSchema = z
+  .object({
+    firstName: z.string().min(1, "First name is required"),
+    lastName: z.string().min(1, "Last name is required"),
+    contactNumber: z
+      .string()
+      .min(10, "Contact number must be at least 10 characters"),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+export type AcceptInviteFormValues = z.infer<typeof acceptInviteSchema>;
@@ -0,0 +1,42 @@
+import { create } from "zustand";
+
+// A response that did not match its schema, grouped by endpoint and issue
+export interface ApiDiagnostic {
+  key: string;
+  source: string;
+  path: string;
+  message: string;
+  count: number;
+  lastSeenAt: string;
+}
+
+interface ApiDiagnosticsState {
+  diagnostics: ApiDiagnostic[];
+  report: (source: string, path: string, message: string) => void;
+  clear: () => void;
+}
+
+// Kept in memory only; the panel is a development aid, not a log
+export const useApiDiagnosticsStore = create<ApiDiagnosticsState>()((set) => ({
+  diagnostics: [],
+  report: (source, path, message) =>
+    set((state) => {
+      const key = `${source}|${path}|${message}`;
+      const lastSeenAt = new Date().toISOString();
+      const existing = state.diagnostics.find((d) => d.key === key);
+      if (existing) {
+        return {
+          diagnostics: state.diagnostics.map((d) =>
+            d.key === key ? { ...d, count: d.count + 1, lastSeenAt } : d
+          ),
+        };
+      }
+      return {
+        diagnostics: [
+          { key, source, path, message, count: 1, lastSeenAt },
+          ...state.diagnostics,
+        ],
+      };
+    }),
+  clear: () => set({ diagnostics: [] }),
+}));
@@ -1,5 +1,6 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import { TeamRole } from "@/types/team.types";
 
 interface Developer {
   _id: string;
@@ -8,15 +9,18 @@ interface Developer {
   email: string;
   contactNumber: string;
   status: "pending" | "approved" | "blacklisted";
+  role?: TeamRole;
 }
 
 interface AuthState {
   developer: Developer | null;
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
   hasHydrated: boolean;
   setHasHydrated: (state: boolean) => void;
-  login: (developer: Developer, token: string) => void;
+  login: (developer: Developer, token: string, refreshToken?: string) => void;
+  setToken: (token: string, refreshToken?: string) => void;
   logout: () => void;
   setDeveloper: (developer: Developer) => void;
 }
@@ -26,19 +30,28 @@ export const useAuthStore = create<AuthState>()(
     (set) => ({
       developer: null,
       token: null,
+      refreshToken: null,
       isAuthenticated: false,
       hasHydrated: false,
       setHasHydrated: (state) => set({ hasHydrated: state }),
-      login: (developer, token) =>
+      login: (developer, token, refreshToken) =>
         set({
           developer,
           token,
+          refreshToken: refreshToken ?? null,
           isAuthenticated: true,
         }),
+      // Keeps the previous refresh token when the API does not rotate it
+      setToken: (token, refreshToken) =>
+        set((state) => ({
+          token,
+          refreshToken: refreshToken ?? state.refreshToken,
+        })),
       logout: () =>
         set({
           developer: null,
           token: null,
+          refreshToken: null,
           isAuthenticated: false,
         }),
       setDeveloper: (developer) => set({ developer }),
@@ -6,6 +6,8 @@ export interface CustomerDetails {
   address?: string;
 }
 
+export type BookingStatus = "pending" | "confirmed" | "cancelled" | "completed";
+
 export interface Booking {
   _id: string;
   plotId: {
@@ -17,13 +19,8 @@ export interface Booking {
     facing: string;
     status: string;
   };
-  blockId: string; // Or populated object if backend changes, but currently looks like ID in filter, likely populated in response but backend code says: .populate("plotId"...).populate("projectId"...).populate("brokerId"...).populate("developerId"...) - blockId is NOT populated in the provided snippet? Wait.
-  // The provided snippet:
-  // .populate("plotId", "plotNumber area areaUnit price facing status")
-  // .populate("projectId", "name address projectId")
-  // .populate("brokerId", "name email phone")
-  // .populate("developerId", "name email")
-  // It doesn't populate blockId. So it remains an ID or ObjectId.
+  // Not populated by the API; bookingResponseSchema normalises it to the id
+  blockId: string;
 
   projectId: {
     _id: string;
@@ -48,7 +45,7 @@ export interface Booking {
     email: string;
   };
   customerDetails: CustomerDetails;
-  bookingStatus: "pending" | "confirmed" | "cancelled" | "completed";
+  bookingStatus: BookingStatus;
   bookingDate: string;
   notes?: string;
   cancelledReason?: string;
@@ -61,7 +58,7 @@ export interface Booking {
 export interface GetBookingsParams {
   page?: number;
   limit?: number;
-  bookingStatus?: string;
+  bookingStatus?: BookingStatus;
   projectId?: string;
   startDate?: string;
   endDate?: string;
@@ -12,6 +12,37 @@ export interface Location {
   coordinates: [number, number]; // [longitude, latitude]
 }
 
+// Pins a point on the site plan or layout canvas to a real-world [lng, lat]
+export interface ControlPoint {
+  source: [number, number];
+  target: [number, number];
+}
+
+// "import" marks outlines that arrived already in [lng, lat] from survey files
+export type GeoreferenceSource = "sitePlan" | "canvas" | "import";
+
+export interface Georeference {
+  source: GeoreferenceSource;
+  controlPoints: ControlPoint[];
+}
+
+// Coordinates a plot outline is stored in: [lng, lat], site plan pixels or
+// layout canvas units
+export type BoundarySpace = "lngLat" | "sitePlan" | "canvas";
+
+// Preferential location charges (PLC) added on top of area × pricePerUnit
+export type PricingRuleCriterion = "plotType" | "facing" | "frontRoadWidth";
+export type PricingChargeType = "PERCENTAGE" | "PER_UNIT";
+
+export interface PricingRule {
+  name: string;
+  criterion: PricingRuleCriterion;
+  values?: (PlotType | Facing)[]; // For plotType and facing rules
+  minRoadWidth?: number; // For frontRoadWidth rules
+  chargeType: PricingChargeType;
+  amount: number; // Percent of base price, or ₹ per area unit
+}
+
 export interface PriceRange {
   min: number;
   max: number;
@@ -53,6 +84,8 @@ export interface Project {
   approvalDocuments: string[];
   images: string[];
   sitePlan?: string;
+  georeference?: Georeference;
+  pricingRules?: PricingRule[];
   amenities: string[];
   developmentStatus: DevelopmentStatus;
   projectStatus: ProjectStatus;
@@ -97,7 +130,9 @@ export interface UpdateProjectInput {
   description?: string;
   approvalDocuments?: string[];
   images?: string[];
-  sitePlan?: string;
+  sitePlan?: string | null; // null removes the site plan
+  georeference?: Georeference | null; // null removes the georeference
+  pricingRules?: PricingRule[];
   amenities?: string[];
   developmentStatus?: DevelopmentStatus;
   bookingTokenAmount?: number;
@@ -140,12 +175,22 @@ export interface ProjectWithStats {
 // Block Types
 export type BlockStatus = "active" | "inactive" | "completed";
 
+// Attributes pre-filled when a plot is added to the block
+export interface BlockPlotDefaults {
+  areaUnit?: PlotAreaUnit;
+  pricePerUnit?: number;
+  facing?: Facing;
+  plotType?: PlotType;
+}
+
 export interface Block {
   _id: string;
   projectId: string;
   name: string;
   description?: string;
   status: BlockStatus;
+  order?: number; // Phase order, lowest first
+  plotDefaults?: BlockPlotDefaults;
   createdAt: string;
   updatedAt: string;
 }
@@ -155,12 +200,16 @@ export interface CreateBlockInput {
   name: string;
   description?: string;
   status?: BlockStatus;
+  order?: number;
+  plotDefaults?: BlockPlotDefaults;
 }
 
 export interface UpdateBlockInput {
   name?: string;
   description?: string;
   status?: BlockStatus;
+  order?: number;
+  plotDefaults?: BlockPlotDefaults;
 }
 
 // Plot Types
@@ -214,6 +263,7 @@ export interface Plot {
   status: PlotStatus;
   canvasPosition?: CanvasPosition;
   boundaries?: Boundaries;
+  boundarySpace?: BoundarySpace;
   bookedBy?: string;
   bookingDate?: string;
   soldDate?: string;
@@ -236,6 +286,7 @@ export interface CreatePlotInput {
   status?: PlotStatus;
   canvasPosition?: CanvasPosition;
   boundaries?: Boundaries;
+  boundarySpace?: BoundarySpace;
 }
 
 export interface UpdatePlotInput {
@@ -252,6 +303,19 @@ export interface UpdatePlotInput {
   status?: PlotStatus;
   canvasPosition?: CanvasPosition;
   boundaries?: Boundaries;
+  boundarySpace?: BoundarySpace;
+}
+
+// A change applied to a selection of plots, one request per plot
+export type BulkPlotOperation =
+  | { type: "status"; status: PlotStatus }
+  | { type: "delete" }
+  | { type: "update"; updates: Record<string, UpdatePlotInput> };
+
+export interface BulkPlotResult {
+  plot: Plot;
+  ok: boolean;
+  error?: string;
 }
 
 export interface BulkCreatePlotsInput {
@@ -263,8 +327,12 @@ export interface BulkUpdatePlotsInput {
   projectId: string;
   plots: {
     _id: string;
+    blockId?: string;
     canvasPosition?: CanvasPosition;
     boundaries?: Boundaries;
+    boundarySpace?: BoundarySpace;
+    price?: number;
+    pricePerUnit?: number;
   }[];
 }
 
@@ -301,3 +369,29 @@ export interface BulkUpdatePlotsResponse {
   matched: number;
   modified: number;
 }
+
+// Price revisions are kept by the API so any team member can roll one back
+export interface PriceRevisionPlot {
+  _id: string;
+  plotNumber: string;
+  blockId: string;
+  status: PlotStatus;
+  before: { pricePerUnit: number; price: number };
+  after: { pricePerUnit: number; price: number };
+}
+
+export interface PriceRevision {
+  _id: string;
+  projectId: string;
+  description: string;
+  createdBy?: string;
+  createdAt: string;
+  rolledBackAt?: string;
+  plots: PriceRevisionPlot[];
+}
+
+export interface CreatePriceRevisionInput {
+  projectId: string;
+  description: string;
+  plots: PriceRevisionPlot[];
+}
@@ -0,0 +1,24 @@
+import { PlotStatus } from "@/types/project.types";
+import { BookingStatus } from "@/types/booking.types";
+
+// Realtime Types
+// Events pushed to open clients when another user changes a plot or booking
+
+export interface PlotStatusEvent {
+  type: "plot.status";
+  projectId: string;
+  plotId: string;
+  plotNumber: string;
+  status: PlotStatus;
+}
+
+export interface BookingEvent {
+  type: "booking.created" | "booking.updated";
+  bookingId: string;
+  projectId: string;
+  plotId: string;
+  plotNumber: string;
+  bookingStatus: BookingStatus;
+}
+
+export type RealtimeEvent = PlotStatusEvent | BookingEvent;
@@ -0,0 +1,34 @@
+// Team Types
+// A developer account is owned by one login; team members sign in with their
+// own credentials and act on the owner's projects within their role
+
+export type TeamRole = "owner" | "manager" | "sales" | "viewer";
+export type TeamMemberStatus = "invited" | "active";
+
+export interface TeamMember {
+  _id: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  role: TeamRole;
+  status: TeamMemberStatus;
+  invitedAt: string;
+  joinedAt?: string;
+}
+
+export interface InviteTeamMemberInput {
+  email: string;
+  role: Exclude<TeamRole, "owner">;
+}
+
+export interface UpdateTeamMemberInput {
+  role: Exclude<TeamRole, "owner">;
+}
+
+export interface AcceptInviteInput {
+  token: string;
+  firstName: string;
+  lastName: string;
+  contactNumber: string;
+  password: string;
+}